@@ -0,0 +1,64 @@
+/*
+ * Local stand-in for the products API, to work on loading and error states
+ * offline. Serves the bundled catalog at GET /products.json, like Firebase.
+ *
+ *   npm run mock-api
+ *   REACT_APP_PRODUCTS_API_URL=http://localhost:3001 npm start
+ *
+ * Environment:
+ *   MOCK_API_PORT        port to listen on (3001)
+ *   MOCK_API_LATENCY     delay before every response, in ms (0)
+ *   MOCK_API_ERROR_RATE  share of requests answered with a 500, 0 to 1 (0)
+ *
+ * A single request can override them: /products.json?latency=2000&fail=1
+ */
+const http = require('http');
+const path = require('path');
+const fs = require('fs');
+
+const CATALOG_PATH = path.join(__dirname, '../src/static/json/products.json');
+
+const port = Number(process.env.MOCK_API_PORT) || 3001;
+const defaultLatency = Number(process.env.MOCK_API_LATENCY) || 0;
+const defaultErrorRate = Number(process.env.MOCK_API_ERROR_RATE) || 0;
+
+const send = (response, status, body) => {
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+  });
+  response.end(JSON.stringify(body));
+};
+
+const readCatalog = () =>
+  JSON.parse(fs.readFileSync(CATALOG_PATH, 'utf8')).data;
+
+const server = http.createServer((request, response) => {
+  const url = new URL(request.url, `http://${request.headers.host}`);
+  const latency = url.searchParams.has('latency')
+    ? Number(url.searchParams.get('latency')) || 0
+    : defaultLatency;
+  const shouldFail = url.searchParams.has('fail')
+    ? url.searchParams.get('fail') === '1'
+    : Math.random() < defaultErrorRate;
+
+  setTimeout(() => {
+    if (request.method !== 'GET' || url.pathname !== '/products.json') {
+      send(response, 404, { error: 'Not found' });
+    } else if (shouldFail) {
+      send(response, 500, { error: 'Injected failure' });
+    } else {
+      // Read on every request so edits to the catalog show up on reload.
+      send(response, 200, readCatalog());
+    }
+
+    console.log(`${request.method} ${request.url} ${response.statusCode}`);
+  }, latency);
+});
+
+server.listen(port, () =>
+  console.log(
+    `Mock products API on http://localhost:${port}` +
+      ` (latency ${defaultLatency}ms, error rate ${defaultErrorRate})`
+  )
+);
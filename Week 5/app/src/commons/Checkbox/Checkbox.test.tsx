@@ -1,4 +1,4 @@
-import { render, fireEvent } from '@testing-library/react';
+import { render, fireEvent, screen } from '@testing-library/react';
 
 import Checkbox from '.';
 
@@ -31,4 +31,34 @@ describe('[commons] - Checkbox', () => {
 
     expect(mockHandleOnChange).toBeCalledTimes(2);
   });
+
+  test('should show a count next to the label when given one', () => {
+    render(
+      <Checkbox
+        label={mockLabel}
+        count={4}
+        handleOnChange={mockHandleOnChange}
+      />
+    );
+
+    expect(screen.getByText('4')).toBeInTheDocument();
+  });
+
+  test('should follow the checked prop when given one', () => {
+    const { rerender } = render(
+      <Checkbox label={mockLabel} checked handleOnChange={mockHandleOnChange} />
+    );
+
+    expect(screen.getByTestId('checkbox')).toBeChecked();
+
+    rerender(
+      <Checkbox
+        label={mockLabel}
+        checked={false}
+        handleOnChange={mockHandleOnChange}
+      />
+    );
+
+    expect(screen.getByTestId('checkbox')).not.toBeChecked();
+  });
 });
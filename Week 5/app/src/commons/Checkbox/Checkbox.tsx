@@ -3,11 +3,22 @@ import { useState } from 'react';
 interface IProps {
   className?: string;
   label: string;
+  /* Shown next to the label, e.g. how many products an option matches */
+  count?: number;
+  /* Makes the checkbox controlled; left out, it keeps its own state */
+  checked?: boolean;
   handleOnChange(label: string): void;
 }
 
-const Checkbox = ({ className, label, handleOnChange }: IProps) => {
-  const [isChecked, setIsChecked] = useState(false);
+const Checkbox = ({
+  className,
+  label,
+  count,
+  checked,
+  handleOnChange,
+}: IProps) => {
+  const [isCheckedState, setIsChecked] = useState(false);
+  const isChecked = checked ?? isCheckedState;
 
   const toggleCheckboxChange = () => {
     setIsChecked(!isChecked);
@@ -26,6 +37,7 @@ const Checkbox = ({ className, label, handleOnChange }: IProps) => {
         />
 
         <span className="checkmark">{label}</span>
+        {count !== undefined && <span className="count">{count}</span>}
       </label>
     </div>
   );
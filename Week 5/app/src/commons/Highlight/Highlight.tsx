@@ -0,0 +1,18 @@
+import { highlightText, IHighlightPart } from 'services/search';
+
+interface IProps {
+  className?: string;
+  text: string;
+  /* Normalized words to mark, as returned by the product search */
+  matches?: string[];
+}
+
+const Highlight = ({ className, text, matches }: IProps) => (
+  <span className={className}>
+    {highlightText(text, matches).map(({ text, isMatch }: IHighlightPart, i) =>
+      isMatch ? <mark key={i}>{text}</mark> : text
+    )}
+  </span>
+);
+
+export default Highlight;
@@ -1,17 +1,27 @@
+import { fireEvent, screen, waitFor } from '@testing-library/react';
+
 import { renderWithThemeProvider } from 'utils/test/test-utils';
 import { ProductsProvider } from 'contexts/products-context';
 import { CartProvider } from 'contexts/cart-context';
+import { WishlistProvider } from 'contexts/wishlist-context';
+import { CurrencyProvider } from 'contexts/currency-context';
+import * as productsService from 'services/products';
+import { mockProducts } from 'utils/test/mocks';
 
 import App from '.';
 
 describe('[components] - App', () => {
   const setup = () => {
     return renderWithThemeProvider(
-      <ProductsProvider>
-        <CartProvider>
-          <App />
-        </CartProvider>
-      </ProductsProvider>
+      <CurrencyProvider>
+        <ProductsProvider>
+          <CartProvider>
+            <WishlistProvider>
+              <App />
+            </WishlistProvider>
+          </CartProvider>
+        </ProductsProvider>
+      </CurrencyProvider>
     );
   };
 
@@ -19,4 +29,96 @@ describe('[components] - App', () => {
     const view = setup();
     expect(view).toMatchSnapshot();
   });
+
+  describe('loading states', () => {
+    let getProducts: jest.SpyInstance;
+
+    beforeEach(() => {
+      getProducts = jest.spyOn(productsService, 'getProducts');
+    });
+
+    afterEach(() => {
+      getProducts.mockRestore();
+      jest.useRealTimers();
+    });
+
+    test('should show placeholder cards until the catalog arrives', async () => {
+      getProducts.mockResolvedValue(mockProducts);
+      setup();
+
+      expect(screen.getByLabelText('Loading products')).toBeInTheDocument();
+      expect(
+        await screen.findByText(mockProducts[0].title)
+      ).toBeInTheDocument();
+      expect(
+        screen.queryByLabelText('Loading products')
+      ).not.toBeInTheDocument();
+    });
+
+    test('should retry with backoff, then offer to try again', async () => {
+      jest.useFakeTimers();
+      getProducts.mockRejectedValue(new Error('offline'));
+      setup();
+
+      const alert = await screen.findByRole(
+        'alert',
+        {},
+        // 1s + 2s + 4s of backoff between the four attempts
+        { timeout: 10000 }
+      );
+      expect(alert).toHaveTextContent("We couldn't load the products");
+      expect(getProducts).toHaveBeenCalledTimes(4);
+
+      getProducts.mockResolvedValue(mockProducts);
+      fireEvent.click(screen.getByRole('button', { name: 'Try again' }));
+
+      expect(
+        await screen.findByText(
+          `Showing 1–${mockProducts.length} of ${mockProducts.length}`
+        )
+      ).toBeInTheDocument();
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    });
+
+    test('should explain when the catalog is empty', async () => {
+      getProducts.mockResolvedValue([]);
+      setup();
+
+      await waitFor(() =>
+        expect(screen.getByRole('status')).toHaveTextContent(
+          'No products available'
+        )
+      );
+
+      getProducts.mockResolvedValue(mockProducts);
+      fireEvent.click(screen.getByRole('button', { name: 'Reload' }));
+
+      expect(
+        await screen.findByText(mockProducts[0].title)
+      ).toBeInTheDocument();
+    });
+
+    test('should explain when no product matches and clear the filters', async () => {
+      getProducts.mockResolvedValue(mockProducts);
+      window.history.replaceState(
+        null,
+        '',
+        '/?size=XXL&freeShipping=free&q=skater'
+      );
+      setup();
+
+      await waitFor(() =>
+        expect(screen.getByRole('status')).toHaveTextContent(
+          'No products found'
+        )
+      );
+      fireEvent.click(screen.getByRole('button', { name: 'Clear filters' }));
+
+      expect(
+        screen.getByText(
+          `Showing 1–${mockProducts.length} of ${mockProducts.length}`
+        )
+      ).toBeInTheDocument();
+    });
+  });
 });
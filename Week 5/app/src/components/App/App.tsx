@@ -1,41 +1,140 @@
-import { useEffect } from 'react';
+import { useEffect, useRef } from 'react';
 
-import Loader from 'components/Loader';
+import ErrorBoundary from 'components/ErrorBoundary';
+import StatusPanel from 'components/StatusPanel';
 import { GithubCorner, GithubStarButton } from 'components/Github';
 import Recruiter from 'components/Recruiter';
 import Filter from 'components/Filter';
 import Products from 'components/Products';
 import Cart from 'components/Cart';
+import Wishlist from 'components/Wishlist';
+import CurrencySwitcher from 'components/CurrencySwitcher';
+import ProductSort from 'components/ProductSort';
+import Search from 'components/Search';
+import Pagination from 'components/Pagination';
 
 import { useProducts } from 'contexts/products-context';
+import { getShownRange } from 'services/pagination';
 
 import * as S from './style';
 
 function App() {
-  const { isFetching, products, fetchProducts } = useProducts();
+  const {
+    isFetching,
+    hasLoaded,
+    error,
+    catalog,
+    products,
+    totalCount,
+    paginationMode,
+    page,
+    pageSize,
+    searchMatches,
+    fetchProducts,
+    reloadProducts,
+    clearFilters,
+  } = useProducts();
+  const mainRef = useRef<HTMLElement>(null);
+  const [shownFrom, shownTo] = getShownRange(
+    page,
+    pageSize,
+    totalCount,
+    paginationMode
+  );
 
   useEffect(() => {
     fetchProducts();
   }, [fetchProducts]);
 
+  const renderProducts = () => {
+    if (isFetching) {
+      return <Products products={[]} isLoading />;
+    }
+
+    if (error) {
+      return (
+        <StatusPanel
+          isError
+          title="We couldn't load the products"
+          message="Check your connection and try again."
+          actionLabel="Try again"
+          onAction={fetchProducts}
+        />
+      );
+    }
+
+    // An empty feed, or one where every record failed validation.
+    if (hasLoaded && !catalog.length) {
+      return (
+        <StatusPanel
+          title="No products available"
+          message="The catalog is empty right now. Please check back later."
+          actionLabel="Reload"
+          onAction={reloadProducts}
+        />
+      );
+    }
+
+    if (catalog.length && !totalCount) {
+      return (
+        <StatusPanel
+          title="No products found"
+          message="Nothing matches your search and filters."
+          actionLabel="Clear filters"
+          onAction={clearFilters}
+        />
+      );
+    }
+
+    return (
+      <>
+        <Products products={products} highlights={searchMatches} />
+        <Pagination
+          onPageChange={() =>
+            mainRef.current?.scrollIntoView?.({ behavior: 'smooth' })
+          }
+        />
+      </>
+    );
+  };
+
   return (
     <S.Container>
-      {isFetching && <Loader />}
       <GithubCorner />
       <Recruiter />
       <S.TwoColumnGrid>
         <S.Side>
+          <Search />
           <Filter />
           <GithubStarButton />
         </S.Side>
-        <S.Main>
+        <S.Main ref={mainRef}>
           <S.MainHeader>
-            <p>{products?.length} Product(s) found</p>
+            <p>
+              {totalCount
+                ? `Showing ${shownFrom}–${shownTo} of ${totalCount}`
+                : 'Showing 0 of 0'}
+            </p>
+            <ProductSort />
+            <CurrencySwitcher />
           </S.MainHeader>
-          <Products products={products} />
+          <ErrorBoundary
+            fallback={(reset) => (
+              <StatusPanel
+                isError
+                title="Something went wrong showing the products"
+                message="The rest of the store still works."
+                actionLabel="Try again"
+                onAction={reset}
+              />
+            )}
+          >
+            {renderProducts()}
+          </ErrorBoundary>
         </S.Main>
       </S.TwoColumnGrid>
       <Cart />
+      <Wishlist />
     </S.Container>
   );
 }
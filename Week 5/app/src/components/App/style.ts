@@ -31,7 +31,9 @@ export const Main = styled.main``;
 
 export const MainHeader = styled.main`
   display: grid;
-  grid-template-columns: 1fr 1fr;
+  grid-template-columns: 1fr auto auto;
   justify-content: end;
+  align-items: center;
+  column-gap: 16px;
   padding: 0 15px;
 `;
@@ -1,14 +1,25 @@
+import { act, fireEvent, screen, within } from '@testing-library/react';
+
 import { renderWithThemeProvider } from 'utils/test/test-utils';
 import { CartProvider } from 'contexts/cart-context';
+import { WishlistProvider } from 'contexts/wishlist-context';
+import { CurrencyProvider } from 'contexts/currency-context';
+import { saveCart } from 'services/cart-storage';
+import { mockCartProducts } from 'utils/test/mocks';
 
 import Cart from '.';
+import { UNDO_TOAST_DURATION } from './UndoToast/UndoToast';
 
 describe('[components] - Cart', () => {
   const setup = () => {
     return renderWithThemeProvider(
-      <CartProvider>
-        <Cart />
-      </CartProvider>
+      <CurrencyProvider>
+        <CartProvider>
+          <WishlistProvider>
+            <Cart />
+          </WishlistProvider>
+        </CartProvider>
+      </CurrencyProvider>
     );
   };
 
@@ -16,4 +27,115 @@ describe('[components] - Cart', () => {
     const view = setup();
     expect(view).toMatchSnapshot();
   });
+
+  test('should open the checkout flow from the cart', () => {
+    saveCart([mockCartProducts[0]]);
+    setup();
+
+    fireEvent.click(screen.getByTitle('Products in cart quantity'));
+    fireEvent.click(screen.getByRole('button', { name: 'Checkout' }));
+
+    expect(screen.getByRole('dialog')).toHaveTextContent('Checkout');
+  });
+
+  test('should list coupon discounts above the subtotal', () => {
+    saveCart(mockCartProducts);
+    setup();
+
+    fireEvent.click(screen.getByTitle('Products in cart quantity'));
+    fireEvent.change(screen.getByLabelText('Coupon code'), {
+      target: { value: 'SAVE10' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Apply' }));
+
+    expect(screen.getByRole('list', { name: 'Discounts' })).toHaveTextContent(
+      'SAVE10- $5.01'
+    );
+    expect(screen.getByText('$50.94')).toBeInTheDocument();
+  });
+
+  test('should show the shipping charge and delivery estimate', () => {
+    jest.useFakeTimers('modern');
+    // Thursday
+    jest.setSystemTime(new Date(2026, 9, 15));
+    saveCart(mockCartProducts);
+    setup();
+
+    fireEvent.click(screen.getByTitle('Products in cart quantity'));
+
+    const shipping = screen.getByRole('list', { name: 'Shipping' });
+    expect(shipping).toHaveTextContent('Standard shipping$5.90');
+    expect(shipping).toHaveTextContent(
+      'Estimated delivery: Tue, Oct 20 – Thu, Oct 22'
+    );
+    expect(screen.getByText('$55.95')).toBeInTheDocument();
+
+    jest.useRealTimers();
+  });
+
+  test('should move lines between the cart and the saved-for-later list', () => {
+    saveCart([mockCartProducts[0], mockCartProducts[1]]);
+    setup();
+
+    fireEvent.click(screen.getByTitle('Products in cart quantity'));
+    fireEvent.click(
+      screen.getAllByRole('button', { name: 'Save for later' })[0]
+    );
+
+    const saved = screen.getByRole('region', { name: 'Saved for later (1)' });
+    expect(saved).toHaveTextContent(mockCartProducts[0].title);
+    expect(saved).toHaveTextContent('L | White T-shirt Quantity: 1');
+    expect(
+      screen.getAllByRole('button', { name: 'Save for later' })
+    ).toHaveLength(1);
+
+    fireEvent.click(
+      within(saved).getByRole('button', { name: 'Move to cart' })
+    );
+
+    expect(
+      screen.queryByRole('region', { name: /Saved for later/ })
+    ).not.toBeInTheDocument();
+    expect(
+      screen.getAllByRole('button', { name: 'Save for later' })
+    ).toHaveLength(2);
+  });
+
+  describe('undo remove', () => {
+    const removeFirstProduct = () => {
+      saveCart([mockCartProducts[0]]);
+      setup();
+
+      fireEvent.click(screen.getByTitle('Products in cart quantity'));
+      fireEvent.click(screen.getByTitle('remove product from cart'));
+    };
+
+    test('should bring a removed product back from the toast', () => {
+      removeFirstProduct();
+
+      expect(screen.getByRole('status')).toHaveTextContent(
+        `Removed ${mockCartProducts[0].title}`
+      );
+      fireEvent.click(
+        within(screen.getByRole('status')).getByRole('button', {
+          name: 'Undo',
+        })
+      );
+
+      expect(screen.getByText(mockCartProducts[0].title)).toBeInTheDocument();
+      expect(screen.queryByRole('status')).not.toBeInTheDocument();
+    });
+
+    test('should hide the toast after a while', () => {
+      jest.useFakeTimers();
+      removeFirstProduct();
+
+      act(() => {
+        jest.advanceTimersByTime(UNDO_TOAST_DURATION);
+      });
+
+      expect(screen.queryByRole('status')).not.toBeInTheDocument();
+      jest.useRealTimers();
+    });
+  });
 });
@@ -1,21 +1,51 @@
-import formatPrice from 'utils/formatPrice';
+import { useCallback, useState } from 'react';
+
+import formatDeliveryDate from 'utils/formatDeliveryDate';
+import { isZeroMoney } from 'utils/money';
+import { formatPromotionText } from 'services/promotions';
+import { getDeliveryEstimate } from 'services/shipping';
+import Checkout from 'components/Checkout';
 import CartProducts from './CartProducts';
+import CouponForm from './CouponForm';
+import InstallmentPlans from './InstallmentPlans';
+import UndoToast from './UndoToast';
 
-import { useCart } from 'contexts/cart-context';
+import { useCart, CartReducerAction } from 'contexts/cart-context';
+import { useCurrency } from 'contexts/currency-context';
 
 import * as S from './style';
 
 const Cart = () => {
-  const { products, total, isOpen, openCart, closeCart } = useCart();
+  const {
+    products,
+    savedProducts,
+    total,
+    isOpen,
+    openCart,
+    closeCart,
+    canUndo,
+    canRedo,
+    lastAction,
+    undo,
+    redo,
+  } = useCart();
+  const { formatPrice } = useCurrency();
+  const [isCheckoutOpen, setIsCheckoutOpen] = useState(false);
+  const [dismissedAction, setDismissedAction] = useState<CartReducerAction>();
+
+  const removedProduct =
+    lastAction?.type === 'remove' && lastAction !== dismissedAction
+      ? lastAction.product
+      : undefined;
+
+  const handleDismissUndoToast = useCallback(
+    () => setDismissedAction(lastAction),
+    [lastAction]
+  );
 
   const handleCheckout = () => {
     if (total.productQuantity) {
-      alert(
-        `Checkout - Subtotal: ${total.currencyFormat} ${formatPrice(
-          total.totalPrice,
-          total.currencyId
-        )}`
-      );
+      setIsCheckoutOpen(true);
     } else {
       alert('Add some product in the cart!');
     }
@@ -24,6 +54,10 @@ const Cart = () => {
   const handleToggleCart = (isOpen: boolean) => () =>
     isOpen ? closeCart() : openCart();
 
+  const [earliestDelivery, latestDelivery] = getDeliveryEstimate(
+    total.shipping
+  );
+
   return (
     <S.Container isOpen={isOpen}>
       <S.CartButton onClick={handleToggleCart(isOpen)}>
@@ -45,29 +79,75 @@ const Cart = () => {
               <S.CartQuantity>{total.productQuantity}</S.CartQuantity>
             </S.CartIcon>
             <S.HeaderTitle>Cart</S.HeaderTitle>
+            <S.HistoryButtons>
+              <S.HistoryButton
+                onClick={undo}
+                disabled={!canUndo}
+                title="undo last cart change"
+              >
+                Undo
+              </S.HistoryButton>
+              <S.HistoryButton
+                onClick={redo}
+                disabled={!canRedo}
+                title="redo last undone cart change"
+              >
+                Redo
+              </S.HistoryButton>
+            </S.HistoryButtons>
           </S.CartContentHeader>
 
-          <CartProducts products={products} />
+          <CartProducts products={products} savedProducts={savedProducts} />
+
+          {removedProduct && (
+            <UndoToast
+              message={`Removed ${removedProduct.title}`}
+              onUndo={undo}
+              onDismiss={handleDismissUndoToast}
+            />
+          )}
 
           <S.CartFooter>
-            <S.Sub>SUBTOTAL</S.Sub>
-            <S.SubPrice>
-              <S.SubPriceValue>{`${total.currencyFormat} ${formatPrice(
-                total.totalPrice,
-                total.currencyId
-              )}`}</S.SubPriceValue>
-              <S.SubPriceInstallment>
-                {total.installments ? (
+            <CouponForm />
+            {total.discounts.length > 0 && (
+              <S.Discounts aria-label="Discounts">
+                {total.discounts.map(
+                  ({ code, description, descriptionPrices, amount }) => (
+                    <li key={code || description}>
+                      <span>
+                        {code ||
+                          formatPromotionText(
+                            description,
+                            descriptionPrices,
+                            formatPrice
+                          )}
+                      </span>
+                      <span>{`- ${formatPrice(amount)}`}</span>
+                    </li>
+                  )
+                )}
+              </S.Discounts>
+            )}
+            {total.productQuantity > 0 && (
+              <S.Shipping aria-label="Shipping">
+                <li>
+                  <span>{total.shipping.method.label} shipping</span>
                   <span>
-                    {`OR UP TO ${total.installments} x ${
-                      total.currencyFormat
-                    } ${formatPrice(
-                      total.totalPrice / total.installments,
-                      total.currencyId
-                    )}`}
+                    {isZeroMoney(total.shipping.price)
+                      ? 'Free'
+                      : formatPrice(total.shipping.price)}
                   </span>
-                ) : null}
-              </S.SubPriceInstallment>
+                </li>
+                <li>
+                  Estimated delivery: {formatDeliveryDate(earliestDelivery)} –{' '}
+                  {formatDeliveryDate(latestDelivery)}
+                </li>
+              </S.Shipping>
+            )}
+            <S.Sub>TOTAL</S.Sub>
+            <S.SubPrice>
+              <S.SubPriceValue>{formatPrice(total.grandTotal)}</S.SubPriceValue>
+              <InstallmentPlans />
             </S.SubPrice>
             <S.CheckoutButton onClick={handleCheckout} autoFocus>
               Checkout
@@ -75,6 +155,8 @@ const Cart = () => {
           </S.CartFooter>
         </S.CartContent>
       )}
+
+      {isCheckoutOpen && <Checkout onClose={() => setIsCheckoutOpen(false)} />}
     </S.Container>
   );
 };
@@ -1,5 +1,7 @@
 import { renderWithThemeProvider } from 'utils/test/test-utils';
 import { CartProvider } from 'contexts/cart-context';
+import { WishlistProvider } from 'contexts/wishlist-context';
+import { CurrencyProvider } from 'contexts/currency-context';
 import { mockCartProducts } from 'utils/test/mocks';
 
 import CartProduct from '.';
@@ -7,9 +9,13 @@ import CartProduct from '.';
 describe('[components] - CartProduct', () => {
   const setup = (props = {}) => {
     return renderWithThemeProvider(
-      <CartProvider>
-        <CartProduct product={mockCartProducts[0]} {...props} />
-      </CartProvider>
+      <CurrencyProvider>
+        <CartProvider>
+          <WishlistProvider>
+            <CartProduct product={mockCartProducts[0]} {...props} />
+          </WishlistProvider>
+        </CartProvider>
+      </CurrencyProvider>
     );
   };
 
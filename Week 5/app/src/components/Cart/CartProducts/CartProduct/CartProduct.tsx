@@ -1,30 +1,70 @@
-import formatPrice from 'utils/formatPrice';
+import { ChangeEvent } from 'react';
+
 import { ICartProduct } from 'models';
+import { money } from 'utils/money';
 
-import { useCart } from 'contexts/cart-context';
+import { useCartActions } from 'contexts/cart-context';
+import { useCurrency } from 'contexts/currency-context';
+import { useWishlist } from 'contexts/wishlist-context';
 
 import * as S from './style';
 
 interface IProps {
   product: ICartProduct;
+  /* Saved-for-later lines can only be moved back into the cart */
+  isSaved?: boolean;
 }
-const CartProduct = ({ product }: IProps) => {
-  const { removeProduct, increaseProductQuantity, decreaseProductQuantity } =
-    useCart();
+const CartProduct = ({ product, isSaved = false }: IProps) => {
+  const {
+    removeProduct,
+    increaseProductQuantity,
+    decreaseProductQuantity,
+    changeProductSize,
+    saveProductForLater,
+    moveSavedProductToCart,
+  } = useCartActions();
+  const { formatPrice } = useCurrency();
+  const { moveFromCart } = useWishlist();
   const {
     sku,
     title,
     price,
     style,
     currencyId,
-    currencyFormat,
     availableSizes,
+    selectedSize,
     quantity,
   } = product;
 
   const handleRemoveProduct = () => removeProduct(product);
   const handleIncreaseProductQuantity = () => increaseProductQuantity(product);
   const handleDecreaseProductQuantity = () => decreaseProductQuantity(product);
+  const handleChangeProductSize = (event: ChangeEvent<HTMLSelectElement>) =>
+    changeProductSize(product, event.target.value);
+
+  if (isSaved) {
+    return (
+      <S.Container>
+        <S.Image
+          src={require(`static/products/${sku}-1-cart.webp`)}
+          alt={title}
+        />
+        <S.Details>
+          <S.Title>{title}</S.Title>
+          <S.Desc>
+            {`${selectedSize} | ${style}`} <br />
+            Quantity: {quantity}
+          </S.Desc>
+          <S.SaveButton onClick={() => moveSavedProductToCart(product)}>
+            Move to cart
+          </S.SaveButton>
+        </S.Details>
+        <S.Price>
+          <p>{formatPrice(money(price, currencyId))}</p>
+        </S.Price>
+      </S.Container>
+    );
+  }
 
   return (
     <S.Container>
@@ -39,12 +79,29 @@ const CartProduct = ({ product }: IProps) => {
       <S.Details>
         <S.Title>{title}</S.Title>
         <S.Desc>
-          {`${availableSizes[0]} | ${style}`} <br />
+          <S.SizeSelect
+            value={selectedSize}
+            onChange={handleChangeProductSize}
+            aria-label={`Size of ${title}`}
+          >
+            {availableSizes.map((size) => (
+              <option value={size} key={size}>
+                {size}
+              </option>
+            ))}
+          </S.SizeSelect>
+          {` | ${style}`} <br />
           Quantity: {quantity}
         </S.Desc>
+        <S.SaveButton onClick={() => saveProductForLater(product)}>
+          Save for later
+        </S.SaveButton>
+        <S.SaveButton onClick={() => moveFromCart(product)}>
+          Move to wishlist
+        </S.SaveButton>
       </S.Details>
       <S.Price>
-        <p>{`${currencyFormat}  ${formatPrice(price, currencyId)}`}</p>
+        <p>{formatPrice(money(price, currencyId))}</p>
         <div>
           <S.ChangeQuantity
             onClick={handleDecreaseProductQuantity}
@@ -34,6 +34,18 @@ export const Desc = styled.p`
   margin: 0;
 `;
 
+export const SizeSelect = styled.select`
+  color: #ececec;
+  border: 0;
+  background-color: #000;
+  font-size: inherit;
+  cursor: pointer;
+
+  &:focus-visible {
+    outline: 3px solid ${({ theme }) => theme.colors.secondary};
+  }
+`;
+
 export const Price = styled.div`
   display: inline-block;
   vertical-align: middle;
@@ -89,3 +101,19 @@ export const Image = styled.img`
   height: auto;
   margin-right: 3%;
 `;
+
+export const SaveButton = styled.button`
+  margin-top: 5px;
+  margin-right: 10px;
+  padding: 0;
+  border: 0;
+  color: #b7b7b7;
+  font-size: 0.8em;
+  text-decoration: underline;
+  background: none;
+  cursor: pointer;
+
+  &:focus-visible {
+    outline: 3px solid ${({ theme }) => theme.colors.secondary};
+  }
+`;
@@ -2,14 +2,20 @@ import { renderWithThemeProvider } from 'utils/test/test-utils';
 import { mockCartProducts } from 'utils/test/mocks';
 
 import { CartProvider } from 'contexts/cart-context';
+import { WishlistProvider } from 'contexts/wishlist-context';
+import { CurrencyProvider } from 'contexts/currency-context';
 import CartProducts from '.';
 
 describe('[components] - CartProducts', () => {
   const setup = (props = {}) => {
     return renderWithThemeProvider(
-      <CartProvider>
-        <CartProducts products={mockCartProducts} {...props} />
-      </CartProvider>
+      <CurrencyProvider>
+        <CartProvider>
+          <WishlistProvider>
+            <CartProducts products={mockCartProducts} {...props} />
+          </WishlistProvider>
+        </CartProvider>
+      </CurrencyProvider>
     );
   };
 
@@ -1,23 +1,37 @@
 import { ICartProduct } from 'models';
+import getCartProductKey from 'utils/getCartProductKey';
 import CartProduct from './CartProduct';
 
 import * as S from './style';
 
 interface IProps {
   products: ICartProduct[];
+  savedProducts?: ICartProduct[];
 }
 
-const CartProducts = ({ products }: IProps) => {
+const CartProducts = ({ products, savedProducts = [] }: IProps) => {
   return (
     <S.Container>
       {products?.length ? (
-        products.map((p) => <CartProduct product={p} key={p.sku} />)
+        products.map((p) => (
+          <CartProduct product={p} key={getCartProductKey(p)} />
+        ))
       ) : (
         <S.CartProductsEmpty>
           Add some products in the cart <br />
           :)
         </S.CartProductsEmpty>
       )}
+      {savedProducts.length > 0 && (
+        <S.SavedProducts aria-labelledby="saved-products-title">
+          <S.SavedProductsTitle id="saved-products-title">
+            Saved for later ({savedProducts.length})
+          </S.SavedProductsTitle>
+          {savedProducts.map((p) => (
+            <CartProduct product={p} key={getCartProductKey(p)} isSaved />
+          ))}
+        </S.SavedProducts>
+      )}
     </S.Container>
   );
 };
@@ -3,7 +3,7 @@ import styled from 'styled-components/macro';
 export const Container = styled.div`
   position: relative;
   min-height: 280px;
-  padding-bottom: 200px;
+  padding-bottom: 340px;
 `;
 
 export const CartProductsEmpty = styled.p`
@@ -11,3 +11,14 @@ export const CartProductsEmpty = styled.p`
   text-align: center;
   line-height: 40px;
 `;
+
+export const SavedProducts = styled.section`
+  margin-top: 20px;
+  opacity: 0.7;
+`;
+
+export const SavedProductsTitle = styled.h3`
+  margin: 0 5% 10px;
+  color: #ececec;
+  font-size: 1em;
+`;
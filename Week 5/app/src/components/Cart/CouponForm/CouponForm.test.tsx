@@ -0,0 +1,76 @@
+import { fireEvent, screen } from '@testing-library/react';
+
+import { renderWithThemeProvider } from 'utils/test/test-utils';
+import { CartProvider } from 'contexts/cart-context';
+import { CurrencyProvider, useCurrency } from 'contexts/currency-context';
+import { saveCart } from 'services/cart-storage';
+import { mockCartProducts } from 'utils/test/mocks';
+
+import CouponForm from '.';
+
+describe('[components] - CouponForm', () => {
+  const SwitchToEuro = () => {
+    const { setCurrency } = useCurrency();
+    return <button onClick={() => setCurrency('EUR')}>Euro</button>;
+  };
+
+  const setup = (products = mockCartProducts) => {
+    saveCart(products);
+
+    return renderWithThemeProvider(
+      <CurrencyProvider locale="en-US">
+        <CartProvider>
+          <CouponForm />
+          <SwitchToEuro />
+        </CartProvider>
+      </CurrencyProvider>
+    );
+  };
+
+  const submitCoupon = (code: string) => {
+    fireEvent.change(screen.getByLabelText('Coupon code'), {
+      target: { value: code },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Apply' }));
+  };
+
+  test('should reject an unknown coupon', () => {
+    setup();
+    submitCoupon('nope');
+
+    expect(screen.getByRole('alert')).toHaveTextContent(
+      '"NOPE" is not a valid coupon code.'
+    );
+    expect(screen.getByLabelText('Coupon code')).toHaveValue('nope');
+  });
+
+  test('should show the minimum spend in the active currency', () => {
+    setup([mockCartProducts[0]]);
+    submitCoupon('welcome5');
+
+    expect(screen.getByRole('alert')).toHaveTextContent(
+      '"WELCOME5" needs a subtotal of at least $30.00.'
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Euro' }));
+
+    expect(screen.getByRole('alert')).toHaveTextContent(
+      /needs a subtotal of at least €\d+\.\d{2}\.$/
+    );
+  });
+
+  test('should apply and remove a valid coupon', () => {
+    setup();
+    submitCoupon('save10');
+
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    expect(
+      screen.getByText('Coupon applied: 10% off your order')
+    ).toBeInTheDocument();
+    expect(screen.getByLabelText('Coupon code')).toHaveValue('');
+
+    fireEvent.click(screen.getByTitle('remove coupon SAVE10'));
+
+    expect(screen.queryByTitle('remove coupon SAVE10')).not.toBeInTheDocument();
+  });
+});
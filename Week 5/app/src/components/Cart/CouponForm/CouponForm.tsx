@@ -0,0 +1,101 @@
+import { ChangeEvent, FormEvent, useState } from 'react';
+
+import { useCartActions, useCartState } from 'contexts/cart-context';
+import { useCurrency } from 'contexts/currency-context';
+import { IAppliedDiscount, TextPrices } from 'models';
+import { describePromotion, formatPromotionText } from 'services/promotions';
+
+import * as S from './style';
+
+interface IMessage {
+  text: string;
+  /* Amounts the text names, shown in the active currency */
+  prices?: TextPrices;
+  isError: boolean;
+}
+
+const CouponForm = () => {
+  const discounts = useCartState(({ total }) => total.discounts);
+  const couponCodes = useCartState(({ couponCodes }) => couponCodes);
+  const { applyCoupon, removeCoupon } = useCartActions();
+  const { formatPrice } = useCurrency();
+  const [code, setCode] = useState('');
+  const [message, setMessage] = useState<IMessage>();
+
+  const activeCodes = discounts.map(
+    (discount: IAppliedDiscount) => discount.code
+  );
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+
+    const validation = applyCoupon(code);
+
+    if (validation.isValid) {
+      setCode('');
+      setMessage({
+        text: `Coupon applied: ${describePromotion(
+          validation.promotion,
+          formatPrice
+        )}`,
+        isError: false,
+      });
+    } else {
+      setMessage({
+        text: validation.message,
+        prices: validation.messagePrices,
+        isError: true,
+      });
+    }
+  };
+
+  const handleChange = (event: ChangeEvent<HTMLInputElement>) => {
+    setCode(event.target.value);
+    setMessage(undefined);
+  };
+
+  return (
+    <S.Container>
+      <S.Form onSubmit={handleSubmit}>
+        <S.Input
+          value={code}
+          onChange={handleChange}
+          placeholder="Coupon code"
+          aria-label="Coupon code"
+          aria-invalid={!!message?.isError}
+        />
+        <S.ApplyButton type="submit">Apply</S.ApplyButton>
+      </S.Form>
+
+      {message && (
+        <S.Message
+          role={message.isError ? 'alert' : undefined}
+          isError={message.isError}
+        >
+          {formatPromotionText(message.text, message.prices, formatPrice)}
+        </S.Message>
+      )}
+
+      {couponCodes.length > 0 && (
+        <S.AppliedCoupons>
+          {couponCodes.map((couponCode: string) => (
+            <li key={couponCode}>
+              {couponCode}
+              {!activeCodes.includes(couponCode) && (
+                <S.Inactive> (conditions not met)</S.Inactive>
+              )}
+              <S.RemoveButton
+                onClick={() => removeCoupon(couponCode)}
+                title={`remove coupon ${couponCode}`}
+              >
+                ×
+              </S.RemoveButton>
+            </li>
+          ))}
+        </S.AppliedCoupons>
+      )}
+    </S.Container>
+  );
+};
+
+export default CouponForm;
@@ -0,0 +1,80 @@
+import styled from 'styled-components/macro';
+
+export const Container = styled.div`
+  margin-bottom: 15px;
+`;
+
+export const Form = styled.form`
+  display: flex;
+`;
+
+export const Input = styled.input`
+  flex: 1;
+  padding: 8px;
+  border: 0;
+  color: #ececec;
+  text-transform: uppercase;
+  background-color: #0c0b10;
+
+  &::placeholder {
+    text-transform: none;
+    color: #5b5a5e;
+  }
+
+  &:focus-visible {
+    outline: 3px solid ${({ theme }) => theme.colors.secondary};
+  }
+`;
+
+export const ApplyButton = styled.button`
+  border: 0;
+  padding: 8px 15px;
+  color: #0c0b10;
+  text-transform: uppercase;
+  background-color: ${({ theme }) => theme.colors.secondary};
+  cursor: pointer;
+
+  &:focus-visible {
+    outline: 3px solid #ececec;
+  }
+`;
+
+interface IMessage {
+  isError: boolean;
+}
+export const Message = styled.p<IMessage>`
+  margin: 5px 0 0;
+  font-size: 0.8em;
+  color: ${({ isError, theme }) =>
+    isError ? '#ff6b5b' : theme.colors.secondary};
+`;
+
+export const AppliedCoupons = styled.ul`
+  list-style: none;
+  padding: 0;
+  margin: 5px 0 0;
+  color: #ececec;
+  font-size: 0.8em;
+
+  li {
+    display: inline-block;
+    margin-right: 10px;
+  }
+`;
+
+export const Inactive = styled.span`
+  color: #5b5a5e;
+`;
+
+export const RemoveButton = styled.button`
+  border: 0;
+  margin-left: 5px;
+  padding: 0 5px;
+  color: #ececec;
+  background-color: transparent;
+  cursor: pointer;
+
+  &:focus-visible {
+    outline: 3px solid ${({ theme }) => theme.colors.secondary};
+  }
+`;
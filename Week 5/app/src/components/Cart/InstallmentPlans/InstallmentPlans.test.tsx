@@ -0,0 +1,54 @@
+import { fireEvent, screen } from '@testing-library/react';
+
+import { renderWithThemeProvider } from 'utils/test/test-utils';
+import { CartProvider } from 'contexts/cart-context';
+import { CurrencyProvider } from 'contexts/currency-context';
+import { saveCart } from 'services/cart-storage';
+import { mockCartProducts } from 'utils/test/mocks';
+
+import InstallmentPlans from '.';
+
+describe('[components] - InstallmentPlans', () => {
+  const setup = () =>
+    renderWithThemeProvider(
+      <CurrencyProvider>
+        <CartProvider>
+          <InstallmentPlans />
+        </CartProvider>
+      </CurrencyProvider>
+    );
+
+  test('should list a plan per installment count the cart allows', () => {
+    saveCart(mockCartProducts);
+    setup();
+
+    const options = screen.getAllByRole('option');
+
+    expect(options).toHaveLength(3);
+    expect(options[2]).toHaveTextContent(
+      '3 x $18.65 (total $55.95, interest-free)'
+    );
+    expect(screen.getByLabelText('Pay in')).toHaveValue('1');
+  });
+
+  test('should show the cost of interest-bearing plans', () => {
+    saveCart([mockCartProducts[2]]);
+    setup();
+
+    fireEvent.change(screen.getByLabelText('Pay in'), {
+      target: { value: '12' },
+    });
+
+    expect(screen.getByLabelText('Pay in')).toHaveValue('12');
+    expect(screen.getAllByRole('option')[11]).toHaveTextContent(
+      '2.49% a month'
+    );
+  });
+
+  test('should not offer plans when the cart must be paid in full', () => {
+    saveCart([{ ...mockCartProducts[0], installments: 0 }]);
+    setup();
+
+    expect(screen.queryByLabelText('Pay in')).not.toBeInTheDocument();
+  });
+});
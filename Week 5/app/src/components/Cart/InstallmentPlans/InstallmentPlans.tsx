@@ -0,0 +1,56 @@
+import { ChangeEvent } from 'react';
+
+import { useCartActions, useCartState } from 'contexts/cart-context';
+import { useCurrency } from 'contexts/currency-context';
+import { IInstallmentPlan } from 'models';
+import {
+  getInstallmentPlans,
+  selectInstallmentPlan,
+} from 'services/installments';
+import formatInstallments from 'utils/formatInstallments';
+import formatMonthlyRate from 'utils/formatMonthlyRate';
+
+import * as S from './style';
+
+const InstallmentPlans = () => {
+  const grandTotal = useCartState(({ total }) => total.grandTotal);
+  const installments = useCartState(({ total }) => total.installments);
+  const installmentCount = useCartState(
+    ({ installmentCount }) => installmentCount
+  );
+  const { selectInstallments } = useCartActions();
+  const { convert, formatPrice } = useCurrency();
+
+  // Planned in the displayed currency so the installments add up to the
+  // totals shown next to them.
+  const plans = getInstallmentPlans(convert(grandTotal), installments);
+  const selectedPlan = selectInstallmentPlan(plans, installmentCount);
+
+  if (!selectedPlan || plans.length < 2) {
+    return null;
+  }
+
+  const handleChange = (event: ChangeEvent<HTMLSelectElement>) =>
+    selectInstallments(Number(event.target.value));
+
+  return (
+    <S.Container>
+      <label htmlFor="installment-plan">Pay in</label>
+      <S.Select
+        id="installment-plan"
+        value={selectedPlan.count}
+        onChange={handleChange}
+      >
+        {plans.map((plan: IInstallmentPlan) => (
+          <option key={plan.count} value={plan.count}>
+            {`${formatInstallments(plan, formatPrice)} (total ${formatPrice(
+              plan.total
+            )}, ${formatMonthlyRate(plan.monthlyRate)})`}
+          </option>
+        ))}
+      </S.Select>
+    </S.Container>
+  );
+};
+
+export default InstallmentPlans;
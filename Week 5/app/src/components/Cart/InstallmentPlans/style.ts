@@ -0,0 +1,26 @@
+import styled from 'styled-components/macro';
+
+export const Container = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: flex-end;
+  margin-top: 5px;
+
+  label {
+    margin-right: 8px;
+  }
+`;
+
+export const Select = styled.select`
+  max-width: 100%;
+  padding: 4px;
+  border: 0;
+  color: #ececec;
+  background-color: #0c0b10;
+  font-size: inherit;
+  cursor: pointer;
+
+  &:focus-visible {
+    outline: 3px solid ${({ theme }) => theme.colors.secondary};
+  }
+`;
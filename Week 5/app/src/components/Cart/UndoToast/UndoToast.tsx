@@ -0,0 +1,28 @@
+import { useEffect } from 'react';
+
+import * as S from './style';
+
+export const UNDO_TOAST_DURATION = 5000;
+
+interface IProps {
+  message: string;
+  onUndo(): void;
+  onDismiss(): void;
+}
+
+const UndoToast = ({ message, onUndo, onDismiss }: IProps) => {
+  useEffect(() => {
+    const timeout = setTimeout(onDismiss, UNDO_TOAST_DURATION);
+
+    return () => clearTimeout(timeout);
+  }, [onDismiss]);
+
+  return (
+    <S.Container role="status">
+      <span>{message}</span>
+      <S.UndoButton onClick={onUndo}>Undo</S.UndoButton>
+    </S.Container>
+  );
+};
+
+export default UndoToast;
@@ -0,0 +1,30 @@
+import styled from 'styled-components/macro';
+
+export const Container = styled.div`
+  position: absolute;
+  bottom: 340px;
+  left: 5%;
+  width: 90%;
+  box-sizing: border-box;
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  padding: 10px 15px;
+  color: #ececec;
+  background-color: #0c0b10;
+  z-index: 3;
+`;
+
+export const UndoButton = styled.button`
+  border: 0;
+  padding: 5px 10px;
+  color: #0c0b10;
+  text-transform: uppercase;
+  font-weight: bold;
+  background-color: ${({ theme }) => theme.colors.secondary};
+  cursor: pointer;
+
+  &:focus-visible {
+    outline: 3px solid #ececec;
+  }
+`;
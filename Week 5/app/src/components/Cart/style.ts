@@ -122,6 +122,46 @@ export const HeaderTitle = styled.span`
   vertical-align: middle;
 `;
 
+export const HistoryButtons = styled.div`
+  margin-top: 15px;
+`;
+
+export const HistoryButton = styled.button`
+  border: 0;
+  margin: 0 5px;
+  padding: 5px 10px;
+  color: #ececec;
+  font-size: 0.8em;
+  background-color: #0c0b10;
+  cursor: pointer;
+
+  &:disabled {
+    opacity: 0.3;
+    cursor: default;
+  }
+
+  &:focus-visible {
+    outline: 3px solid ${({ theme }) => theme.colors.secondary};
+  }
+`;
+
+export const Discounts = styled.ul`
+  list-style: none;
+  padding: 0;
+  margin: 0 0 10px;
+  color: ${({ theme }) => theme.colors.secondary};
+  font-size: 0.8em;
+
+  li {
+    display: flex;
+    justify-content: space-between;
+  }
+`;
+
+export const Shipping = styled(Discounts)`
+  color: #5b5a5e;
+`;
+
 export const Sub = styled.p`
   width: 20%;
   color: #5b5a5e;
@@ -143,10 +183,6 @@ export const SubPriceValue = styled.p`
   margin: 0;
 `;
 
-export const SubPriceInstallment = styled.p`
-  margin: 0;
-`;
-
 export const CheckoutButton = styled.button`
   width: 100%;
   border: 0;
@@ -155,7 +191,7 @@ export const CheckoutButton = styled.button`
   background-color: #0c0b10;
   text-align: center;
   padding: 15px 0;
-  margin-top: 40px;
+  margin-top: 20px;
   cursor: pointer;
   outline: none;
 
@@ -176,7 +212,7 @@ export const CartFooter = styled.div`
   position: absolute;
   bottom: 0;
   width: 100%;
-  height: 200px;
+  min-height: 200px;
   z-index: 2;
   background-color: ${({ theme }) => theme.colors.primary};
 
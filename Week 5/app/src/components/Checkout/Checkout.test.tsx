@@ -0,0 +1,230 @@
+import { fireEvent, screen, waitFor } from '@testing-library/react';
+
+import { renderWithThemeProvider } from 'utils/test/test-utils';
+import { CartProvider, useCartState } from 'contexts/cart-context';
+import { CurrencyProvider, useCurrency } from 'contexts/currency-context';
+import { saveCart } from 'services/cart-storage';
+import { createInMemoryOrderService, IOrderService } from 'services/orders';
+import { mockCartProducts } from 'utils/test/mocks';
+import { sumMoney } from 'utils/money';
+
+import InstallmentPlans from 'components/Cart/InstallmentPlans';
+import Checkout from '.';
+
+describe('[components] - Checkout', () => {
+  const setup = (
+    orderService: IOrderService,
+    products = [mockCartProducts[0]]
+  ) => {
+    saveCart(products);
+
+    return renderWithThemeProvider(
+      <CurrencyProvider>
+        <CartProvider>
+          <Checkout onClose={jest.fn()} orderService={orderService} />
+        </CartProvider>
+      </CurrencyProvider>
+    );
+  };
+
+  const type = (label: string, value: string) =>
+    fireEvent.change(screen.getByLabelText(label), { target: { value } });
+
+  const next = () =>
+    fireEvent.click(screen.getByRole('button', { name: 'Continue' }));
+
+  const fillUntilReview = () => {
+    type('Full name', 'Ada Lovelace');
+    type('Email', 'ada@example.com');
+    next();
+
+    type('Street address', '1 Main St');
+    type('City', 'Amsterdam');
+    type('Postal code', '1011 AB');
+    type('Country', 'Netherlands');
+    next();
+
+    fireEvent.click(screen.getByRole('radio', { name: /Express/ }));
+    next();
+
+    type('Name on card', 'Ada Lovelace');
+    type('Card number', '4242 4242 4242 4242');
+    type('Expiry', '12/99');
+    type('CVC', '123');
+    next();
+  };
+
+  test('should not leave a step with invalid fields', () => {
+    setup(createInMemoryOrderService());
+
+    next();
+
+    expect(screen.getByText('Enter your full name')).toBeInTheDocument();
+    expect(screen.getByText('Contact')).toHaveAttribute('aria-current', 'step');
+  });
+
+  test('should keep the entered data when going back', () => {
+    setup(createInMemoryOrderService());
+
+    type('Full name', 'Ada Lovelace');
+    type('Email', 'ada@example.com');
+    next();
+    fireEvent.click(screen.getByRole('button', { name: 'Back' }));
+
+    expect(screen.getByLabelText('Full name')).toHaveValue('Ada Lovelace');
+    expect(screen.getByLabelText('Email')).toHaveValue('ada@example.com');
+  });
+
+  test('should submit the order and show the confirmation', async () => {
+    const orderService = createInMemoryOrderService();
+    setup(orderService);
+
+    fillUntilReview();
+    expect(screen.getByText('Card ending in 4242')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Place order' }));
+
+    expect(
+      await screen.findByText('Thank you for your order!')
+    ).toBeInTheDocument();
+
+    const [confirmation] = orderService.getOrders();
+    expect(screen.getByText(confirmation.orderId)).toBeInTheDocument();
+    expect(confirmation.order.shippingMethod.id).toBe('express');
+    expect(confirmation.order.payment).toEqual({
+      cardholderName: 'Ada Lovelace',
+      cardLast4: '4242',
+    });
+    expect(confirmation.order.products).toEqual([mockCartProducts[0]]);
+  });
+
+  test('should empty the cart without leaving an undo step', async () => {
+    const CartState = () => {
+      const count = useCartState(({ products }) => products.length);
+      const canUndo = useCartState(({ past }) => past.length > 0);
+      return <p>{`${count} in cart, ${canUndo ? 'can' : 'cannot'} undo`}</p>;
+    };
+    saveCart([mockCartProducts[0]]);
+    renderWithThemeProvider(
+      <CurrencyProvider>
+        <CartProvider>
+          <CartState />
+          <Checkout
+            onClose={jest.fn()}
+            orderService={createInMemoryOrderService()}
+          />
+        </CartProvider>
+      </CurrencyProvider>
+    );
+
+    fillUntilReview();
+    fireEvent.click(screen.getByRole('button', { name: 'Place order' }));
+
+    expect(
+      await screen.findByText('0 in cart, cannot undo')
+    ).toBeInTheDocument();
+  });
+
+  test('should charge shipping for the destination region', async () => {
+    const orderService = createInMemoryOrderService();
+    setup(orderService, [mockCartProducts[2]]);
+
+    fillUntilReview();
+    expect(screen.getByText('$48.80')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Place order' }));
+
+    expect(
+      await screen.findByText('Thank you for your order!')
+    ).toBeInTheDocument();
+
+    const [{ order }] = orderService.getOrders();
+    expect(order.total.shipping).toEqual({
+      method: { id: 'express', label: 'Express' },
+      region: 'europe',
+      price: { amount: 2290, currencyId: 'USD' },
+      deliveryDays: [2, 4],
+    });
+    expect(order.total.grandTotal).toEqual({ amount: 4880, currencyId: 'USD' });
+  });
+
+  test('should carry the installment plan picked in the cart', async () => {
+    const orderService = createInMemoryOrderService();
+    saveCart([mockCartProducts[2]]);
+    renderWithThemeProvider(
+      <CurrencyProvider>
+        <CartProvider>
+          <InstallmentPlans />
+          <Checkout onClose={jest.fn()} orderService={orderService} />
+        </CartProvider>
+      </CurrencyProvider>
+    );
+
+    fireEvent.change(screen.getByLabelText('Pay in'), {
+      target: { value: '6' },
+    });
+    fillUntilReview();
+
+    expect(screen.getByText(/Interest \(6 installments\)/)).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Place order' }));
+
+    expect(
+      await screen.findByText('Thank you for your order!')
+    ).toBeInTheDocument();
+
+    const [{ order }] = orderService.getOrders();
+    expect(order.installmentPlan.count).toBe(6);
+    expect(order.installmentPlan.total.amount).toBeGreaterThan(
+      order.total.grandTotal.amount
+    );
+  });
+
+  test('should plan installments in the shopper currency', async () => {
+    const SwitchToEuro = () => {
+      const { setCurrency } = useCurrency();
+      return <button onClick={() => setCurrency('EUR')}>Euro</button>;
+    };
+    const orderService = createInMemoryOrderService();
+    saveCart([mockCartProducts[2]]);
+    renderWithThemeProvider(
+      <CurrencyProvider locale="en-US">
+        <CartProvider>
+          <SwitchToEuro />
+          <InstallmentPlans />
+          <Checkout onClose={jest.fn()} orderService={orderService} />
+        </CartProvider>
+      </CurrencyProvider>
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Euro' }));
+    fireEvent.change(screen.getByLabelText('Pay in'), {
+      target: { value: '3' },
+    });
+    fillUntilReview();
+    fireEvent.click(screen.getByRole('button', { name: 'Place order' }));
+
+    expect(
+      await screen.findByText('Thank you for your order!')
+    ).toBeInTheDocument();
+
+    const [{ order }] = orderService.getOrders();
+    const { payments, total } = order.installmentPlan;
+    expect(order.currencyId).toBe('EUR');
+    expect(total.currencyId).toBe('EUR');
+    expect(sumMoney(payments, 'EUR')).toEqual(total);
+  });
+
+  test('should let the shopper retry when the order fails', async () => {
+    setup({
+      submitOrder: () => Promise.reject(new Error('Network error')),
+    });
+
+    fillUntilReview();
+    fireEvent.click(screen.getByRole('button', { name: 'Place order' }));
+
+    await waitFor(() =>
+      expect(screen.getByRole('alert')).toHaveTextContent(
+        'We could not place your order'
+      )
+    );
+    expect(screen.getByRole('button', { name: 'Place order' })).toBeEnabled();
+  });
+});
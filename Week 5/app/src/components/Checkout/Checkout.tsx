@@ -0,0 +1,275 @@
+import { FormEvent, useMemo, useState } from 'react';
+
+import { IOrder, IOrderConfirmation } from 'models';
+import {
+  IOrderService,
+  orderService as defaultOrderService,
+} from 'services/orders';
+import {
+  getShippingMethod,
+  getShippingQuote,
+  getShippingRegion,
+  shippingMethods,
+} from 'services/shipping';
+import {
+  getInstallmentPlan,
+  getInstallmentPlans,
+  selectInstallmentPlan,
+} from 'services/installments';
+import { useCartActions, useCartState } from 'contexts/cart-context';
+import { useCurrency } from 'contexts/currency-context';
+import getCartTotal from 'utils/getCartTotal';
+
+import {
+  ContactStep,
+  AddressStep,
+  ShippingMethodStep,
+  PaymentStep,
+  ReviewStep,
+} from './Steps';
+import {
+  checkoutSteps,
+  CheckoutErrors,
+  CheckoutStep,
+  ICheckoutForm,
+  initialCheckoutForm,
+  validateStep,
+} from './validation';
+
+import * as S from './style';
+
+type FormSection = 'contact' | 'shippingAddress' | 'payment';
+
+interface IProps {
+  onClose(): void;
+  orderService?: IOrderService;
+}
+
+const Checkout = ({ onClose, orderService = defaultOrderService }: IProps) => {
+  const products = useCartState(({ products }) => products);
+  const couponCodes = useCartState(({ couponCodes }) => couponCodes);
+  const installmentCount = useCartState(
+    ({ installmentCount }) => installmentCount
+  );
+  const { resetCart } = useCartActions();
+  const { currencyId, convert } = useCurrency();
+  const [stepIndex, setStepIndex] = useState(0);
+  const [form, setForm] = useState<ICheckoutForm>(initialCheckoutForm);
+  const [errors, setErrors] = useState<CheckoutErrors>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string>();
+  const [confirmation, setConfirmation] = useState<IOrderConfirmation>();
+
+  const step = checkoutSteps[stepIndex];
+  const shippingMethod = getShippingMethod(form.shippingMethodId);
+  const shippingRegion = getShippingRegion(form.shippingAddress.country);
+
+  // Until a method is chosen the totals are estimated with the default one.
+  const total = useMemo(
+    () => getCartTotal(products, couponCodes, shippingMethod, shippingRegion),
+    [products, couponCodes, shippingMethod, shippingRegion]
+  );
+  // Planned in the displayed currency, like the cart's InstallmentPlans, so
+  // the payments add up to the total shown.
+  const grandTotal = convert(total.grandTotal);
+  const installmentPlan =
+    selectInstallmentPlan(
+      getInstallmentPlans(grandTotal, total.installments),
+      installmentCount
+    ) || getInstallmentPlan(grandTotal, 1);
+  const shippingQuotes = shippingMethods.map((method) =>
+    getShippingQuote(products, method, shippingRegion, total.hasFreeShipping)
+  );
+
+  const handleSectionChange =
+    <T extends FormSection>(section: T) =>
+    (key: keyof ICheckoutForm[T], value: string) => {
+      setForm((form) => ({
+        ...form,
+        [section]: { ...form[section], [key]: value },
+      }));
+      setErrors(({ [`${section}.${String(key)}`]: _, ...errors }) => errors);
+    };
+
+  const handleShippingMethodChange = (shippingMethodId: string) => {
+    setForm((form) => ({ ...form, shippingMethodId }));
+    setErrors(({ shippingMethodId: _, ...errors }) => errors);
+  };
+
+  const goToStep = (stepId: CheckoutStep) => {
+    setErrors({});
+    setStepIndex(checkoutSteps.findIndex(({ id }) => id === stepId));
+  };
+
+  const handleBack = () => {
+    setErrors({});
+    setStepIndex((stepIndex) => Math.max(stepIndex - 1, 0));
+  };
+
+  const placeOrder = () => {
+    if (!shippingMethod) {
+      return;
+    }
+
+    const order: IOrder = {
+      contact: form.contact,
+      shippingAddress: form.shippingAddress,
+      shippingMethod,
+      payment: {
+        cardholderName: form.payment.cardholderName,
+        cardLast4: form.payment.cardNumber.replace(/\D/g, '').slice(-4),
+      },
+      currencyId,
+      installmentPlan,
+      products,
+      total,
+    };
+
+    setIsSubmitting(true);
+    setSubmitError(undefined);
+
+    orderService
+      .submitOrder(order)
+      .then((confirmation: IOrderConfirmation) => {
+        setIsSubmitting(false);
+        setConfirmation(confirmation);
+        resetCart();
+      })
+      .catch(() => {
+        setIsSubmitting(false);
+        setSubmitError('We could not place your order. Please try again.');
+      });
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+
+    if (step.id === 'review') {
+      placeOrder();
+      return;
+    }
+
+    const stepErrors = validateStep(step.id, form);
+    setErrors(stepErrors);
+
+    if (!Object.keys(stepErrors).length) {
+      setStepIndex(stepIndex + 1);
+    }
+  };
+
+  const renderStep = () => {
+    switch (step.id) {
+      case 'contact':
+        return (
+          <ContactStep
+            values={form.contact}
+            errors={errors}
+            onChange={handleSectionChange('contact')}
+          />
+        );
+      case 'address':
+        return (
+          <AddressStep
+            values={form.shippingAddress}
+            errors={errors}
+            onChange={handleSectionChange('shippingAddress')}
+          />
+        );
+      case 'shipping':
+        return (
+          <ShippingMethodStep
+            value={form.shippingMethodId}
+            error={errors.shippingMethodId}
+            quotes={shippingQuotes}
+            onChange={handleShippingMethodChange}
+          />
+        );
+      case 'payment':
+        return (
+          <PaymentStep
+            values={form.payment}
+            errors={errors}
+            onChange={handleSectionChange('payment')}
+          />
+        );
+      case 'review':
+        return (
+          <ReviewStep
+            form={form}
+            products={products}
+            total={total}
+            installmentPlan={installmentPlan}
+            onEdit={goToStep}
+          />
+        );
+    }
+  };
+
+  return (
+    <S.Overlay>
+      <S.Dialog
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="checkout-title"
+      >
+        <S.CloseButton onClick={onClose} title="close checkout">
+          X
+        </S.CloseButton>
+
+        {confirmation ? (
+          <S.Confirmation>
+            <S.Title id="checkout-title">Thank you for your order!</S.Title>
+            <p>
+              Your order number is <b>{confirmation.orderId}</b>. A confirmation
+              was sent to {confirmation.order.contact.email}.
+            </p>
+            <S.PrimaryButton onClick={onClose} autoFocus>
+              Continue shopping
+            </S.PrimaryButton>
+          </S.Confirmation>
+        ) : (
+          <>
+            <S.Title id="checkout-title">Checkout</S.Title>
+            <S.Progress>
+              {checkoutSteps.map(({ id, title }, index) => (
+                <S.ProgressStep
+                  key={id}
+                  isActive={index === stepIndex}
+                  isComplete={index < stepIndex}
+                  aria-current={index === stepIndex ? 'step' : undefined}
+                >
+                  {title}
+                </S.ProgressStep>
+              ))}
+            </S.Progress>
+
+            <form onSubmit={handleSubmit} noValidate>
+              <S.StepContent>{renderStep()}</S.StepContent>
+
+              {submitError && (
+                <S.SubmitError role="alert">{submitError}</S.SubmitError>
+              )}
+
+              <S.Actions>
+                {stepIndex > 0 && (
+                  <S.SecondaryButton type="button" onClick={handleBack}>
+                    Back
+                  </S.SecondaryButton>
+                )}
+                <S.PrimaryButton type="submit" disabled={isSubmitting}>
+                  {step.id === 'review'
+                    ? isSubmitting
+                      ? 'Placing order…'
+                      : 'Place order'
+                    : 'Continue'}
+                </S.PrimaryButton>
+              </S.Actions>
+            </form>
+          </>
+        )}
+      </S.Dialog>
+    </S.Overlay>
+  );
+};
+
+export default Checkout;
@@ -0,0 +1,364 @@
+import { ChangeEvent } from 'react';
+
+import {
+  ICartProduct,
+  ICartTotal,
+  IContactInfo,
+  IInstallmentPlan,
+  IPaymentDetails,
+  IShippingAddress,
+  IShippingQuote,
+} from 'models';
+import { useCurrency } from 'contexts/currency-context';
+import { formatPromotionText } from 'services/promotions';
+import formatInstallments from 'utils/formatInstallments';
+import getCartProductKey from 'utils/getCartProductKey';
+import getLinePrice from 'utils/getLinePrice';
+import { isZeroMoney } from 'utils/money';
+
+import { CheckoutErrors, CheckoutStep, ICheckoutForm } from '../validation';
+import * as S from './style';
+
+export const countries = [
+  'Brazil',
+  'Canada',
+  'Germany',
+  'Netherlands',
+  'Portugal',
+  'United Kingdom',
+  'United States',
+];
+
+interface IFieldProps {
+  name: string;
+  label: string;
+  value: string;
+  error?: string;
+  type?: string;
+  autoComplete?: string;
+  placeholder?: string;
+  onChange(value: string): void;
+}
+
+const Field = ({
+  name,
+  label,
+  value,
+  error,
+  type = 'text',
+  autoComplete,
+  placeholder,
+  onChange,
+}: IFieldProps) => (
+  <S.Field>
+    <label htmlFor={name}>{label}</label>
+    <input
+      id={name}
+      name={name}
+      type={type}
+      value={value}
+      autoComplete={autoComplete}
+      placeholder={placeholder}
+      aria-invalid={!!error}
+      aria-describedby={error ? `${name}-error` : undefined}
+      onChange={(event: ChangeEvent<HTMLInputElement>) =>
+        onChange(event.target.value)
+      }
+    />
+    {error && <S.FieldError id={`${name}-error`}>{error}</S.FieldError>}
+  </S.Field>
+);
+
+interface IStepProps<T> {
+  values: T;
+  errors: CheckoutErrors;
+  onChange(key: keyof T, value: string): void;
+}
+
+export const ContactStep = ({
+  values,
+  errors,
+  onChange,
+}: IStepProps<IContactInfo>) => (
+  <>
+    <Field
+      name="contact.fullName"
+      label="Full name"
+      autoComplete="name"
+      value={values.fullName}
+      error={errors['contact.fullName']}
+      onChange={(value) => onChange('fullName', value)}
+    />
+    <Field
+      name="contact.email"
+      label="Email"
+      type="email"
+      autoComplete="email"
+      value={values.email}
+      error={errors['contact.email']}
+      onChange={(value) => onChange('email', value)}
+    />
+    <Field
+      name="contact.phone"
+      label="Phone (optional)"
+      type="tel"
+      autoComplete="tel"
+      value={values.phone}
+      error={errors['contact.phone']}
+      onChange={(value) => onChange('phone', value)}
+    />
+  </>
+);
+
+export const AddressStep = ({
+  values,
+  errors,
+  onChange,
+}: IStepProps<IShippingAddress>) => (
+  <>
+    <Field
+      name="shippingAddress.street"
+      label="Street address"
+      autoComplete="street-address"
+      value={values.street}
+      error={errors['shippingAddress.street']}
+      onChange={(value) => onChange('street', value)}
+    />
+    <Field
+      name="shippingAddress.city"
+      label="City"
+      autoComplete="address-level2"
+      value={values.city}
+      error={errors['shippingAddress.city']}
+      onChange={(value) => onChange('city', value)}
+    />
+    <Field
+      name="shippingAddress.postalCode"
+      label="Postal code"
+      autoComplete="postal-code"
+      value={values.postalCode}
+      error={errors['shippingAddress.postalCode']}
+      onChange={(value) => onChange('postalCode', value)}
+    />
+    <S.Field>
+      <label htmlFor="shippingAddress.country">Country</label>
+      <select
+        id="shippingAddress.country"
+        name="shippingAddress.country"
+        autoComplete="country-name"
+        value={values.country}
+        aria-invalid={!!errors['shippingAddress.country']}
+        onChange={(event: ChangeEvent<HTMLSelectElement>) =>
+          onChange('country', event.target.value)
+        }
+      >
+        <option value="">Select…</option>
+        {countries.map((country) => (
+          <option value={country} key={country}>
+            {country}
+          </option>
+        ))}
+      </select>
+      {errors['shippingAddress.country'] && (
+        <S.FieldError>{errors['shippingAddress.country']}</S.FieldError>
+      )}
+    </S.Field>
+  </>
+);
+
+interface IShippingMethodStepProps {
+  value: string;
+  error?: string;
+  quotes: IShippingQuote[];
+  onChange(shippingMethodId: string): void;
+}
+
+export const ShippingMethodStep = ({
+  value,
+  error,
+  quotes,
+  onChange,
+}: IShippingMethodStepProps) => {
+  const { formatPrice } = useCurrency();
+
+  return (
+    <S.Options role="radiogroup" aria-label="Shipping method">
+      {quotes.map(({ method: { id, label }, price, deliveryDays }) => (
+        <S.Option key={id} isSelected={id === value}>
+          <input
+            type="radio"
+            name="shippingMethodId"
+            value={id}
+            checked={id === value}
+            onChange={() => onChange(id)}
+          />
+          <span>
+            <b>{label}</b> ({deliveryDays[0]}–{deliveryDays[1]} business days)
+          </span>
+          <span>{isZeroMoney(price) ? 'Free' : formatPrice(price)}</span>
+        </S.Option>
+      ))}
+      {error && <S.FieldError>{error}</S.FieldError>}
+    </S.Options>
+  );
+};
+
+export const PaymentStep = ({
+  values,
+  errors,
+  onChange,
+}: IStepProps<IPaymentDetails>) => (
+  <>
+    <Field
+      name="payment.cardholderName"
+      label="Name on card"
+      autoComplete="cc-name"
+      value={values.cardholderName}
+      error={errors['payment.cardholderName']}
+      onChange={(value) => onChange('cardholderName', value)}
+    />
+    <Field
+      name="payment.cardNumber"
+      label="Card number"
+      autoComplete="cc-number"
+      placeholder="1234 5678 9012 3456"
+      value={values.cardNumber}
+      error={errors['payment.cardNumber']}
+      onChange={(value) => onChange('cardNumber', value)}
+    />
+    <S.FieldRow>
+      <Field
+        name="payment.expiry"
+        label="Expiry"
+        autoComplete="cc-exp"
+        placeholder="MM/YY"
+        value={values.expiry}
+        error={errors['payment.expiry']}
+        onChange={(value) => onChange('expiry', value)}
+      />
+      <Field
+        name="payment.cvc"
+        label="CVC"
+        autoComplete="cc-csc"
+        value={values.cvc}
+        error={errors['payment.cvc']}
+        onChange={(value) => onChange('cvc', value)}
+      />
+    </S.FieldRow>
+  </>
+);
+
+interface IReviewStepProps {
+  form: ICheckoutForm;
+  products: ICartProduct[];
+  total: ICartTotal;
+  installmentPlan: IInstallmentPlan;
+  onEdit(step: CheckoutStep): void;
+}
+
+export const ReviewStep = ({
+  form: { contact, shippingAddress, payment },
+  products,
+  total,
+  installmentPlan,
+  onEdit,
+}: IReviewStepProps) => {
+  const { formatPrice: price } = useCurrency();
+  const { shipping } = total;
+
+  return (
+    <>
+      <S.ReviewSection>
+        <h4>Contact</h4>
+        <p>
+          {contact.fullName} <br />
+          {contact.email}
+          {contact.phone && (
+            <>
+              <br />
+              {contact.phone}
+            </>
+          )}
+        </p>
+        <S.EditButton type="button" onClick={() => onEdit('contact')}>
+          Edit
+        </S.EditButton>
+      </S.ReviewSection>
+      <S.ReviewSection>
+        <h4>Ship to</h4>
+        <p>
+          {shippingAddress.street} <br />
+          {shippingAddress.postalCode} {shippingAddress.city} <br />
+          {shippingAddress.country}
+        </p>
+        <S.EditButton type="button" onClick={() => onEdit('address')}>
+          Edit
+        </S.EditButton>
+      </S.ReviewSection>
+      <S.ReviewSection>
+        <h4>Shipping</h4>
+        <p>{shipping.method.label}</p>
+        <S.EditButton type="button" onClick={() => onEdit('shipping')}>
+          Edit
+        </S.EditButton>
+      </S.ReviewSection>
+      <S.ReviewSection>
+        <h4>Payment</h4>
+        <p>
+          Card ending in {payment.cardNumber.replace(/\D/g, '').slice(-4)}
+          {installmentPlan.count > 1 && (
+            <>
+              <br />
+              {formatInstallments(installmentPlan, price)}
+              {installmentPlan.monthlyRate ? '' : ' interest-free'}
+            </>
+          )}
+        </p>
+        <S.EditButton type="button" onClick={() => onEdit('payment')}>
+          Edit
+        </S.EditButton>
+      </S.ReviewSection>
+      <S.ReviewLines>
+        {products.map((product) => (
+          <li key={getCartProductKey(product)}>
+            <span>
+              {product.quantity} x {product.title} ({product.selectedSize})
+            </span>
+            <span>{price(getLinePrice(product))}</span>
+          </li>
+        ))}
+        <li>
+          <span>Subtotal</span>
+          <span>{price(total.subtotalPrice)}</span>
+        </li>
+        {total.discounts.map(
+          ({ code, description, descriptionPrices, amount }) => (
+            <li key={code || description}>
+              <span>
+                {code ||
+                  formatPromotionText(description, descriptionPrices, price)}
+              </span>
+              <span>- {price(amount)}</span>
+            </li>
+          )
+        )}
+        <li>
+          <span>Shipping</span>
+          <span>
+            {isZeroMoney(shipping.price) ? 'Free' : price(shipping.price)}
+          </span>
+        </li>
+        {!isZeroMoney(installmentPlan.interest) && (
+          <li>
+            <span>Interest ({installmentPlan.count} installments)</span>
+            <span>{price(installmentPlan.interest)}</span>
+          </li>
+        )}
+        <S.ReviewTotal>
+          <span>Total</span>
+          <span>{price(installmentPlan.total)}</span>
+        </S.ReviewTotal>
+      </S.ReviewLines>
+    </>
+  );
+};
@@ -0,0 +1,7 @@
+export {
+  ContactStep,
+  AddressStep,
+  ShippingMethodStep,
+  PaymentStep,
+  ReviewStep,
+} from './Steps';
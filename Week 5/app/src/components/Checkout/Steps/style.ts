@@ -0,0 +1,101 @@
+import styled from 'styled-components/macro';
+
+export const Field = styled.div`
+  display: flex;
+  flex-direction: column;
+  margin-bottom: 15px;
+  flex: 1;
+
+  label {
+    font-size: 0.8em;
+    margin-bottom: 5px;
+  }
+
+  input,
+  select {
+    padding: 10px;
+    font-size: 1em;
+    border: 1px solid #ccc;
+    background-color: #fff;
+
+    &[aria-invalid='true'] {
+      border-color: #c0392b;
+    }
+
+    &:focus-visible {
+      outline: 3px solid ${({ theme }) => theme.colors.secondary};
+    }
+  }
+`;
+
+export const FieldRow = styled.div`
+  display: flex;
+  gap: 15px;
+`;
+
+export const FieldError = styled.span`
+  color: #c0392b;
+  font-size: 0.8em;
+  margin-top: 5px;
+`;
+
+export const Options = styled.div`
+  display: grid;
+  gap: 10px;
+`;
+
+interface IOption {
+  isSelected: boolean;
+}
+export const Option = styled.label<IOption>`
+  display: grid;
+  grid-template-columns: auto 1fr auto;
+  gap: 10px;
+  align-items: center;
+  padding: 15px;
+  cursor: pointer;
+  border: 1px solid
+    ${({ theme, isSelected }) => (isSelected ? theme.colors.primary : '#ccc')};
+`;
+
+export const ReviewSection = styled.section`
+  display: grid;
+  grid-template-columns: 100px 1fr auto;
+  align-items: start;
+  padding: 10px 0;
+  border-bottom: 1px solid #eee;
+
+  h4,
+  p {
+    margin: 0;
+  }
+`;
+
+export const EditButton = styled.button`
+  border: 0;
+  padding: 0;
+  background: none;
+  text-decoration: underline;
+  cursor: pointer;
+
+  &:focus-visible {
+    outline: 3px solid ${({ theme }) => theme.colors.secondary};
+  }
+`;
+
+export const ReviewLines = styled.ul`
+  list-style: none;
+  padding: 0;
+  margin: 15px 0 0;
+
+  li {
+    display: flex;
+    justify-content: space-between;
+    padding: 5px 0;
+  }
+`;
+
+export const ReviewTotal = styled.li`
+  font-weight: bold;
+  border-top: 1px solid #eee;
+`;
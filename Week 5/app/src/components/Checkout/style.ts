@@ -0,0 +1,122 @@
+import styled from 'styled-components/macro';
+
+export const Overlay = styled.div`
+  position: fixed;
+  top: 0;
+  left: 0;
+  width: 100%;
+  height: 100%;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  background-color: rgba(0, 0, 0, 0.6);
+  z-index: 100;
+`;
+
+export const Dialog = styled.div`
+  position: relative;
+  box-sizing: border-box;
+  width: 100%;
+  max-width: 560px;
+  max-height: 100%;
+  overflow-y: auto;
+  padding: 30px;
+  background-color: #fff;
+  color: ${({ theme }) => theme.colors.primary};
+`;
+
+export const CloseButton = styled.button`
+  position: absolute;
+  top: 15px;
+  right: 15px;
+  width: 30px;
+  height: 30px;
+  border: 0;
+  color: #ececec;
+  background-color: ${({ theme }) => theme.colors.primary};
+  cursor: pointer;
+
+  &:focus-visible {
+    outline: 3px solid ${({ theme }) => theme.colors.secondary};
+  }
+`;
+
+export const Title = styled.h2`
+  margin-top: 0;
+`;
+
+export const Progress = styled.ol`
+  display: flex;
+  justify-content: space-between;
+  list-style: none;
+  padding: 0;
+  margin: 0 0 25px;
+`;
+
+interface IProgressStep {
+  isActive: boolean;
+  isComplete: boolean;
+}
+export const ProgressStep = styled.li<IProgressStep>`
+  flex: 1;
+  padding-bottom: 5px;
+  font-size: 0.8em;
+  text-align: center;
+  font-weight: ${({ isActive }) => (isActive ? 'bold' : 'normal')};
+  color: ${({ isActive, isComplete }) =>
+    isActive || isComplete ? 'inherit' : '#9c9b9b'};
+  border-bottom: 3px solid
+    ${({ theme, isActive, isComplete }) =>
+      isActive || isComplete ? theme.colors.secondary : '#eee'};
+`;
+
+export const StepContent = styled.div`
+  min-height: 200px;
+`;
+
+export const SubmitError = styled.p`
+  color: #c0392b;
+`;
+
+export const Actions = styled.div`
+  display: flex;
+  justify-content: flex-end;
+  gap: 10px;
+  margin-top: 20px;
+`;
+
+export const PrimaryButton = styled.button`
+  border: 0;
+  padding: 15px 30px;
+  color: #ececec;
+  text-transform: uppercase;
+  background-color: ${({ theme }) => theme.colors.primary};
+  cursor: pointer;
+
+  &:hover {
+    background-color: #000;
+  }
+
+  &:disabled {
+    opacity: 0.6;
+    cursor: not-allowed;
+  }
+
+  &:focus-visible {
+    outline: 3px solid ${({ theme }) => theme.colors.secondary};
+  }
+`;
+
+export const SecondaryButton = styled(PrimaryButton)`
+  color: ${({ theme }) => theme.colors.primary};
+  background-color: #ececec;
+
+  &:hover {
+    background-color: #ddd;
+  }
+`;
+
+export const Confirmation = styled.div`
+  text-align: center;
+  padding: 20px 0;
+`;
@@ -0,0 +1,76 @@
+import {
+  initialCheckoutForm,
+  isExpiredCard,
+  isValidCardNumber,
+  validateStep,
+} from './validation';
+
+describe('[components] - Checkout validation', () => {
+  test('should require a name and a valid email on the contact step', () => {
+    expect(validateStep('contact', initialCheckoutForm)).toEqual({
+      'contact.fullName': 'Enter your full name',
+      'contact.email': 'Enter your email',
+    });
+
+    const form = {
+      ...initialCheckoutForm,
+      contact: { fullName: 'Ada', email: 'ada@', phone: '' },
+    };
+    expect(validateStep('contact', form)).toEqual({
+      'contact.email': 'Enter a valid email',
+    });
+  });
+
+  test('should require every address field', () => {
+    expect(Object.keys(validateStep('address', initialCheckoutForm))).toEqual([
+      'shippingAddress.street',
+      'shippingAddress.city',
+      'shippingAddress.postalCode',
+      'shippingAddress.country',
+    ]);
+  });
+
+  test('should require a known shipping method', () => {
+    expect(validateStep('shipping', initialCheckoutForm)).toHaveProperty(
+      'shippingMethodId'
+    );
+    expect(
+      validateStep('shipping', {
+        ...initialCheckoutForm,
+        shippingMethodId: 'express',
+      })
+    ).toEqual({});
+  });
+
+  test('should validate card number, expiry and cvc', () => {
+    const form = {
+      ...initialCheckoutForm,
+      payment: {
+        cardholderName: 'Ada Lovelace',
+        cardNumber: '4242 4242 4242 4241',
+        expiry: '13/30',
+        cvc: '12',
+      },
+    };
+
+    expect(validateStep('payment', form)).toEqual({
+      'payment.cardNumber': 'Enter a valid card number',
+      'payment.expiry': 'Use the MM/YY format',
+      'payment.cvc': 'Enter the 3 or 4 digit security code',
+    });
+  });
+
+  test('should check card numbers with the Luhn algorithm', () => {
+    expect(isValidCardNumber('4242 4242 4242 4242')).toBe(true);
+    expect(isValidCardNumber('4242-4242-4242-4241')).toBe(false);
+    expect(isValidCardNumber('4242')).toBe(false);
+  });
+
+  test('should detect expired cards', () => {
+    const now = new Date(2024, 5, 15);
+
+    expect(isExpiredCard('05/24', now)).toBe(true);
+    expect(isExpiredCard('06/24', now)).toBe(false);
+    expect(isExpiredCard('01/25', now)).toBe(false);
+  });
+});
@@ -0,0 +1,179 @@
+import { IContactInfo, IPaymentDetails, IShippingAddress } from 'models';
+import { getShippingMethod } from 'services/shipping';
+
+export type CheckoutStep =
+  | 'contact'
+  | 'address'
+  | 'shipping'
+  | 'payment'
+  | 'review';
+
+export const checkoutSteps: { id: CheckoutStep; title: string }[] = [
+  { id: 'contact', title: 'Contact' },
+  { id: 'address', title: 'Address' },
+  { id: 'shipping', title: 'Shipping' },
+  { id: 'payment', title: 'Payment' },
+  { id: 'review', title: 'Review' },
+];
+
+export interface ICheckoutForm {
+  contact: IContactInfo;
+  shippingAddress: IShippingAddress;
+  shippingMethodId: string;
+  payment: IPaymentDetails;
+}
+
+/* Error messages keyed by field path, e.g. `contact.email` */
+export type CheckoutErrors = { [field: string]: string };
+
+export const initialCheckoutForm: ICheckoutForm = {
+  contact: { fullName: '', email: '', phone: '' },
+  shippingAddress: { street: '', city: '', postalCode: '', country: '' },
+  shippingMethodId: '',
+  payment: { cardholderName: '', cardNumber: '', expiry: '', cvc: '' },
+};
+
+const isBlank = (value: string) => !value.trim();
+
+const onlyDigits = (value: string) => value.replace(/[\s-]/g, '');
+
+export const isValidCardNumber = (cardNumber: string) => {
+  const digits = onlyDigits(cardNumber);
+
+  if (!/^\d{13,19}$/.test(digits)) {
+    return false;
+  }
+
+  // Luhn checksum
+  const sum = digits
+    .split('')
+    .reverse()
+    .reduce((sum: number, char: string, index: number) => {
+      let digit = Number(char);
+
+      if (index % 2 === 1) {
+        digit *= 2;
+        digit = digit > 9 ? digit - 9 : digit;
+      }
+
+      return sum + digit;
+    }, 0);
+
+  return sum % 10 === 0;
+};
+
+export const isExpiredCard = (expiry: string, now: Date = new Date()) => {
+  const [month, year] = expiry.split('/').map(Number);
+  const fullYear = 2000 + year;
+
+  return (
+    fullYear < now.getFullYear() ||
+    (fullYear === now.getFullYear() && month < now.getMonth() + 1)
+  );
+};
+
+const validateContact = ({ fullName, email, phone }: IContactInfo) => {
+  const errors: CheckoutErrors = {};
+
+  if (isBlank(fullName)) {
+    errors['contact.fullName'] = 'Enter your full name';
+  }
+
+  if (isBlank(email)) {
+    errors['contact.email'] = 'Enter your email';
+  } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+    errors['contact.email'] = 'Enter a valid email';
+  }
+
+  if (!isBlank(phone) && !/^\+?[\d\s()-]{7,20}$/.test(phone.trim())) {
+    errors['contact.phone'] = 'Enter a valid phone number';
+  }
+
+  return errors;
+};
+
+const validateShippingAddress = ({
+  street,
+  city,
+  postalCode,
+  country,
+}: IShippingAddress) => {
+  const errors: CheckoutErrors = {};
+
+  if (isBlank(street)) {
+    errors['shippingAddress.street'] = 'Enter your street address';
+  }
+
+  if (isBlank(city)) {
+    errors['shippingAddress.city'] = 'Enter your city';
+  }
+
+  if (isBlank(postalCode)) {
+    errors['shippingAddress.postalCode'] = 'Enter your postal code';
+  } else if (!/^[A-Za-z0-9][A-Za-z0-9\s-]{1,9}$/.test(postalCode.trim())) {
+    errors['shippingAddress.postalCode'] = 'Enter a valid postal code';
+  }
+
+  if (isBlank(country)) {
+    errors['shippingAddress.country'] = 'Select your country';
+  }
+
+  return errors;
+};
+
+const validateShippingMethod = (shippingMethodId: string) => {
+  const errors: CheckoutErrors = {};
+
+  if (!getShippingMethod(shippingMethodId)) {
+    errors.shippingMethodId = 'Choose a shipping method';
+  }
+
+  return errors;
+};
+
+const validatePayment = ({
+  cardholderName,
+  cardNumber,
+  expiry,
+  cvc,
+}: IPaymentDetails) => {
+  const errors: CheckoutErrors = {};
+
+  if (isBlank(cardholderName)) {
+    errors['payment.cardholderName'] = 'Enter the name on the card';
+  }
+
+  if (!isValidCardNumber(cardNumber)) {
+    errors['payment.cardNumber'] = 'Enter a valid card number';
+  }
+
+  if (!/^(0[1-9]|1[0-2])\/\d{2}$/.test(expiry.trim())) {
+    errors['payment.expiry'] = 'Use the MM/YY format';
+  } else if (isExpiredCard(expiry.trim())) {
+    errors['payment.expiry'] = 'This card has expired';
+  }
+
+  if (!/^\d{3,4}$/.test(cvc.trim())) {
+    errors['payment.cvc'] = 'Enter the 3 or 4 digit security code';
+  }
+
+  return errors;
+};
+
+export const validateStep = (
+  step: CheckoutStep,
+  form: ICheckoutForm
+): CheckoutErrors => {
+  switch (step) {
+    case 'contact':
+      return validateContact(form.contact);
+    case 'address':
+      return validateShippingAddress(form.shippingAddress);
+    case 'shipping':
+      return validateShippingMethod(form.shippingMethodId);
+    case 'payment':
+      return validatePayment(form.payment);
+    default:
+      return {};
+  }
+};
@@ -0,0 +1,34 @@
+import { fireEvent, screen } from '@testing-library/react';
+
+import { renderWithThemeProvider } from 'utils/test/test-utils';
+import { CartProvider } from 'contexts/cart-context';
+import { WishlistProvider } from 'contexts/wishlist-context';
+import { CurrencyProvider } from 'contexts/currency-context';
+import { mockCartProducts } from 'utils/test/mocks';
+
+import CurrencySwitcher from '.';
+import Product from 'components/Products/Product';
+
+describe('[components] - CurrencySwitcher', () => {
+  test('should reprice products in the selected currency', () => {
+    renderWithThemeProvider(
+      <CurrencyProvider>
+        <CartProvider>
+          <WishlistProvider>
+            <CurrencySwitcher />
+            <Product product={mockCartProducts[0]} />
+          </WishlistProvider>
+        </CartProvider>
+      </CurrencyProvider>
+    );
+
+    expect(screen.getByLabelText('Currency')).toHaveValue('USD');
+
+    fireEvent.change(screen.getByLabelText('Currency'), {
+      target: { value: 'EUR' },
+    });
+
+    expect(screen.getByText('€')).toBeInTheDocument();
+    expect(screen.getByText('.03')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,28 @@
+import { ChangeEvent } from 'react';
+
+import { useCurrency } from 'contexts/currency-context';
+import { ICurrency } from 'models';
+
+import * as S from './style';
+
+const CurrencySwitcher = () => {
+  const { currencyId, currencies, setCurrency } = useCurrency();
+
+  const handleChange = (event: ChangeEvent<HTMLSelectElement>) =>
+    setCurrency(event.target.value);
+
+  return (
+    <S.Container>
+      <label htmlFor="currency">Currency</label>
+      <S.Select id="currency" value={currencyId} onChange={handleChange}>
+        {currencies.map(({ id, label }: ICurrency) => (
+          <option key={id} value={id}>
+            {id} – {label}
+          </option>
+        ))}
+      </S.Select>
+    </S.Container>
+  );
+};
+
+export default CurrencySwitcher;
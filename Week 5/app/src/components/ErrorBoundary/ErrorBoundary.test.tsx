@@ -0,0 +1,51 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+
+import ErrorBoundary from '.';
+
+describe('[components] - ErrorBoundary', () => {
+  let consoleError: jest.SpyInstance;
+  let shouldThrow: boolean;
+
+  const Broken = () => {
+    if (shouldThrow) {
+      throw new Error('broken card');
+    }
+
+    return <p>Cards</p>;
+  };
+
+  const setup = () =>
+    render(
+      <ErrorBoundary
+        fallback={(reset) => <button onClick={reset}>Try again</button>}
+      >
+        <Broken />
+      </ErrorBoundary>
+    );
+
+  beforeEach(() => {
+    // React logs the caught error; keep the test output readable.
+    consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    shouldThrow = true;
+  });
+
+  afterEach(() => {
+    consoleError.mockRestore();
+  });
+
+  test('should show the fallback instead of children that threw', () => {
+    setup();
+
+    expect(screen.queryByText('Cards')).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Try again' })).toBeVisible();
+  });
+
+  test('should render the children again after a reset', () => {
+    setup();
+
+    shouldThrow = false;
+    fireEvent.click(screen.getByRole('button', { name: 'Try again' }));
+
+    expect(screen.getByText('Cards')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,30 @@
+import { Component, ReactNode } from 'react';
+
+interface IProps {
+  children?: ReactNode;
+  /* Shown instead of the children after they threw; `reset` renders them again */
+  fallback(reset: () => void): ReactNode;
+}
+
+interface IState {
+  hasError: boolean;
+}
+
+/* Keeps a render error in part of the page from unmounting the whole app */
+class ErrorBoundary extends Component<IProps, IState> {
+  state: IState = { hasError: false };
+
+  static getDerivedStateFromError(): IState {
+    return { hasError: true };
+  }
+
+  reset = () => this.setState({ hasError: false });
+
+  render() {
+    return this.state.hasError
+      ? this.props.fallback(this.reset)
+      : this.props.children;
+  }
+}
+
+export default ErrorBoundary;
@@ -1,25 +1,91 @@
+import { useEffect } from 'react';
+import { fireEvent, screen } from '@testing-library/react';
+
 import { renderWithThemeProvider } from 'utils/test/test-utils';
-import { ProductsProvider } from 'contexts/products-context/';
+import { ProductsProvider, useProducts } from 'contexts/products-context/';
+import { CurrencyProvider } from 'contexts/currency-context';
+import * as productsService from 'services/products';
+import { mockProducts } from 'utils/test/mocks';
 
 import Filter from '.';
-import { availableSizes } from './Filter';
+
+const Catalog = () => {
+  const { fetchProducts, products } = useProducts();
+
+  useEffect(() => {
+    fetchProducts();
+  }, [fetchProducts]);
+
+  return <p>{products.length} Product(s) found</p>;
+};
 
 describe('[components] - Filter', () => {
-  const setup = () => {
-    return renderWithThemeProvider(
-      <ProductsProvider>
-        <Filter />
-      </ProductsProvider>
+  beforeEach(() => {
+    jest.spyOn(productsService, 'getProducts').mockResolvedValue(mockProducts);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const setup = async () => {
+    const view = renderWithThemeProvider(
+      <CurrencyProvider>
+        <ProductsProvider>
+          <Catalog />
+          <Filter />
+        </ProductsProvider>
+      </CurrencyProvider>
     );
+
+    await screen.findByRole('checkbox', { name: /Free shipping/ });
+
+    return view;
   };
 
-  test('should render correctly', () => {
-    const view = setup();
+  test('should render correctly', async () => {
+    const view = await setup();
     expect(view).toMatchSnapshot();
   });
 
-  test('should render every filter size avaliable', () => {
-    const { getByText } = setup();
-    expect(availableSizes.every((size) => getByText(size))).toBe(true);
+  test('should list the sizes found in the catalog', async () => {
+    await setup();
+
+    ['S', 'ML', 'L', 'XL', 'XXL', 'X'].forEach((size) =>
+      expect(screen.getByText(size)).toBeInTheDocument()
+    );
+    expect(screen.queryByText('XS')).not.toBeInTheDocument();
+  });
+
+  test('should show price ranges in the active currency', async () => {
+    await setup();
+
+    expect(screen.getByText('$0.00 – $25.00')).toBeInTheDocument();
+    expect(screen.getByText('$25.00 – $50.00')).toBeInTheDocument();
+  });
+
+  test('should filter the products and update the counts', async () => {
+    await setup();
+
+    fireEvent.click(screen.getByLabelText(/Free shipping/));
+
+    expect(screen.getByText('2 Product(s) found')).toBeInTheDocument();
+    expect(
+      screen.getByRole('checkbox', { name: '$0.00 – $25.00 2' })
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole('checkbox', { name: '$25.00 – $50.00 0' })
+    ).toBeInTheDocument();
+  });
+
+  test('should check the options restored from the URL', async () => {
+    window.history.replaceState(null, '', '/?size=XL&freeShipping=free');
+    await setup();
+
+    expect(screen.getByRole('checkbox', { name: 'XL 1' })).toBeChecked();
+    expect(
+      screen.getByRole('checkbox', { name: /Free shipping/ })
+    ).toBeChecked();
+    expect(screen.getByRole('checkbox', { name: 'L 2' })).not.toBeChecked();
   });
 });
@@ -1,36 +1,46 @@
-import { useProducts } from 'contexts/products-context';
+import {
+  useProductsActions,
+  useProductsState,
+} from 'contexts/products-context';
+import { useCurrency } from 'contexts/currency-context';
+import { IFacet, IFacetOption } from 'models';
+import { shallowEqual } from 'services/store';
 
 import * as S from './style';
 
-export const availableSizes = ['XS', 'S', 'M', 'ML', 'L', 'XL', 'XXL'];
-
 const Filter = () => {
-  const { filters, filterProducts } = useProducts();
-
-  const selectedCheckboxes = new Set(filters);
-
-  const toggleCheckbox = (label: string) => {
-    if (selectedCheckboxes.has(label)) {
-      selectedCheckboxes.delete(label);
-    } else {
-      selectedCheckboxes.add(label);
-    }
-
-    const filters = Array.from(selectedCheckboxes) as [];
-
-    filterProducts(filters);
-  };
-
-  const createCheckbox = (label: string) => (
-    <S.Checkbox label={label} handleOnChange={toggleCheckbox} key={label} />
+  const { facets, filters } = useProductsState(
+    ({ facets, filters }) => ({ facets, filters }),
+    shallowEqual
   );
-
-  const createCheckboxes = () => availableSizes.map(createCheckbox);
+  const { toggleFilter } = useProductsActions();
+  const { formatPrice } = useCurrency();
+
+  const getOptionLabel = ({ label, range }: IFacetOption) =>
+    range ? `${formatPrice(range[0])} – ${formatPrice(range[1])}` : label;
+
+  const createCheckbox = (facet: IFacet) => (option: IFacetOption) => {
+    const Checkbox = facet.id === 'size' ? S.Checkbox : S.OptionCheckbox;
+
+    return (
+      <Checkbox
+        label={getOptionLabel(option)}
+        count={option.count}
+        checked={!!filters[facet.id]?.includes(option.value)}
+        handleOnChange={() => toggleFilter(facet.id, option.value)}
+        key={option.value}
+      />
+    );
+  };
 
   return (
     <S.Container>
-      <S.Title>Sizes:</S.Title>
-      {createCheckboxes()}
+      {facets.map((facet: IFacet) => (
+        <S.Facet key={facet.id}>
+          <S.Title>{facet.label}:</S.Title>
+          {facet.options.map(createCheckbox(facet))}
+        </S.Facet>
+      ))}
     </S.Container>
   );
 };
@@ -4,6 +4,10 @@ import CB from 'commons/Checkbox';
 
 export const Container = styled.div``;
 
+export const Facet = styled.div`
+  margin-bottom: 20px;
+`;
+
 export const Checkbox = styled(CB)`
   display: inline-block;
   margin-bottom: 10px;
@@ -72,6 +76,51 @@ export const Checkbox = styled(CB)`
 
       border: 1px solid transparent;
     }
+
+    /* Number of matching products, as a badge on the circle */
+    .count {
+      position: absolute;
+      top: -6px;
+      right: -6px;
+      min-width: 16px;
+      height: 16px;
+      padding: 0 3px;
+      box-sizing: border-box;
+      border-radius: 8px;
+      font-size: 0.75em;
+      line-height: 16px;
+      color: #fff;
+      background-color: ${({ theme }) => theme.colors.secondary};
+    }
+  }
+`;
+
+export const OptionCheckbox = styled(CB)`
+  margin-bottom: 6px;
+  font-size: 0.9em;
+
+  label {
+    display: flex;
+    align-items: center;
+    cursor: pointer;
+  }
+
+  input {
+    margin: 0 8px 0 0;
+    accent-color: ${({ theme }) => theme.colors.primary};
+  }
+
+  .count {
+    margin-left: 6px;
+    color: #8d8d8d;
+
+    &::before {
+      content: '(';
+    }
+
+    &::after {
+      content: ')';
+    }
   }
 `;
 
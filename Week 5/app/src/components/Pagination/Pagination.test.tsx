@@ -0,0 +1,122 @@
+import { useEffect } from 'react';
+import { fireEvent, screen } from '@testing-library/react';
+
+import { renderWithThemeProvider } from 'utils/test/test-utils';
+import { ProductsProvider, useProducts } from 'contexts/products-context';
+import { PaginationMode } from 'models';
+import * as productsService from 'services/products';
+import { mockProducts } from 'utils/test/mocks';
+
+import Pagination from '.';
+
+const ProductList = () => {
+  const { fetchProducts, products } = useProducts();
+
+  useEffect(() => {
+    fetchProducts();
+  }, [fetchProducts]);
+
+  return (
+    <ul aria-label="Products">
+      {products.map(({ id, title }) => (
+        <li key={id}>{title}</li>
+      ))}
+    </ul>
+  );
+};
+
+describe('[components] - Pagination', () => {
+  beforeEach(() => {
+    jest.spyOn(productsService, 'getProducts').mockResolvedValue(mockProducts);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const setup = async (paginationMode: PaginationMode, pageSize = 2) => {
+    const onPageChange = jest.fn();
+
+    renderWithThemeProvider(
+      <ProductsProvider paginationMode={paginationMode} pageSize={pageSize}>
+        <ProductList />
+        <Pagination onPageChange={onPageChange} />
+      </ProductsProvider>
+    );
+
+    await screen.findAllByRole('listitem');
+
+    return { onPageChange };
+  };
+
+  const getTitles = () =>
+    screen.getAllByRole('listitem').map((item) => item.textContent);
+
+  test('should move between pages', async () => {
+    const { onPageChange } = await setup('pages');
+
+    expect(screen.getByRole('button', { name: 'Page 1' })).toHaveAttribute(
+      'aria-current',
+      'page'
+    );
+    expect(screen.getByRole('button', { name: 'Previous' })).toBeDisabled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+
+    expect(getTitles()).toEqual([mockProducts[2].title]);
+    expect(screen.getByRole('button', { name: 'Page 2' })).toHaveAttribute(
+      'aria-current',
+      'page'
+    );
+    expect(screen.getByRole('button', { name: 'Next' })).toBeDisabled();
+    expect(onPageChange).toHaveBeenCalledTimes(1);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Page 1' }));
+
+    expect(getTitles()).toHaveLength(2);
+  });
+
+  test('should skip the pages far from the current one', async () => {
+    jest
+      .spyOn(productsService, 'getProducts')
+      .mockResolvedValue(
+        Array.from({ length: 20 }, (_, id) => ({ ...mockProducts[0], id }))
+      );
+    await setup('pages', 1);
+
+    expect(screen.getByRole('button', { name: 'Page 3' })).toBeInTheDocument();
+    expect(
+      screen.queryByRole('button', { name: 'Page 4' })
+    ).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Page 20' })).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Page 20' }));
+
+    expect(screen.getByRole('button', { name: 'Page 1' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Page 18' })).toBeInTheDocument();
+    expect(
+      screen.queryByRole('button', { name: 'Page 17' })
+    ).not.toBeInTheDocument();
+  });
+
+  test('should load more products in infinite mode', async () => {
+    await setup('infinite');
+
+    expect(getTitles()).toHaveLength(2);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Load more' }));
+
+    expect(getTitles()).toHaveLength(3);
+    expect(
+      screen.queryByRole('button', { name: 'Load more' })
+    ).not.toBeInTheDocument();
+  });
+
+  test('should hide when everything fits on one page', async () => {
+    await setup('pages', 12);
+
+    expect(
+      screen.queryByRole('navigation', { name: 'Pagination' })
+    ).not.toBeInTheDocument();
+  });
+});
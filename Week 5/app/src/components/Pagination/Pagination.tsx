@@ -0,0 +1,104 @@
+import { useEffect, useRef } from 'react';
+
+import {
+  useProductsActions,
+  useProductsState,
+} from 'contexts/products-context';
+import { getPageWindow, PAGE_GAP } from 'services/pagination';
+import { shallowEqual } from 'services/store';
+
+import * as S from './style';
+
+interface IProps {
+  /* Called after moving to another page, e.g. to scroll back to the grid */
+  onPageChange?(): void;
+}
+
+const Pagination = ({ onPageChange }: IProps) => {
+  const { paginationMode, page, pageCount } = useProductsState(
+    ({ paginationMode, page, pageCount }) => ({
+      paginationMode,
+      page,
+      pageCount,
+    }),
+    shallowEqual
+  );
+  const { goToPage, loadMore } = useProductsActions();
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const hasMore = page < pageCount;
+
+  // Loads the next page as the end of the grid scrolls into view. Browsers
+  // without IntersectionObserver still get the button.
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+
+    if (
+      paginationMode !== 'infinite' ||
+      !hasMore ||
+      !sentinel ||
+      typeof IntersectionObserver === 'undefined'
+    ) {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      ([entry]) => entry.isIntersecting && loadMore(),
+      { rootMargin: '400px' }
+    );
+
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [paginationMode, hasMore, loadMore]);
+
+  if (pageCount <= 1) {
+    return null;
+  }
+
+  if (paginationMode === 'infinite') {
+    return hasMore ? (
+      <S.Container aria-label="Pagination">
+        <S.Sentinel ref={sentinelRef} />
+        <S.PageButton onClick={loadMore}>Load more</S.PageButton>
+      </S.Container>
+    ) : null;
+  }
+
+  const changePage = (nextPage: number) => {
+    goToPage(nextPage);
+    onPageChange?.();
+  };
+
+  return (
+    <S.Container aria-label="Pagination">
+      <S.PageButton disabled={page === 1} onClick={() => changePage(page - 1)}>
+        Previous
+      </S.PageButton>
+      {getPageWindow(page, pageCount).map((pageNumber, index) =>
+        pageNumber === PAGE_GAP ? (
+          <S.Gap key={`gap-${index}`} aria-hidden="true">
+            …
+          </S.Gap>
+        ) : (
+          <S.PageButton
+            key={pageNumber}
+            isCurrent={pageNumber === page}
+            aria-current={pageNumber === page ? 'page' : undefined}
+            aria-label={`Page ${pageNumber}`}
+            onClick={() => changePage(pageNumber)}
+          >
+            {pageNumber}
+          </S.PageButton>
+        )
+      )}
+      <S.PageButton
+        disabled={page === pageCount}
+        onClick={() => changePage(page + 1)}
+      >
+        Next
+      </S.PageButton>
+    </S.Container>
+  );
+};
+
+export default Pagination;
@@ -0,0 +1,48 @@
+import styled, { css } from 'styled-components/macro';
+
+export const Container = styled.nav`
+  display: flex;
+  flex-wrap: wrap;
+  justify-content: center;
+  gap: 8px;
+  margin: 20px 15px 40px;
+`;
+
+export const PageButton = styled.button<{ isCurrent?: boolean }>`
+  min-width: 40px;
+  padding: 10px 14px;
+  border: 1px solid #ececec;
+  color: ${({ theme }) => theme.colors.primary};
+  background-color: #fff;
+  cursor: pointer;
+
+  &:hover:not(:disabled) {
+    border-color: ${({ theme }) => theme.colors.primary};
+  }
+
+  &:disabled {
+    color: #bbb;
+    cursor: default;
+  }
+
+  &:focus-visible {
+    outline: 3px solid ${({ theme }) => theme.colors.secondary};
+  }
+
+  ${({ isCurrent, theme }) =>
+    isCurrent &&
+    css`
+      border-color: ${theme.colors.primary};
+      color: #fff;
+      background-color: ${theme.colors.primary};
+    `}
+`;
+
+export const Gap = styled.span`
+  align-self: center;
+  color: #9c9b9b;
+`;
+
+export const Sentinel = styled.div`
+  height: 1px;
+`;
@@ -0,0 +1,80 @@
+import { useEffect } from 'react';
+import { fireEvent, screen } from '@testing-library/react';
+
+import { renderWithThemeProvider } from 'utils/test/test-utils';
+import { ProductsProvider, useProducts } from 'contexts/products-context';
+import * as productsService from 'services/products';
+import { mockProducts } from 'utils/test/mocks';
+
+import ProductSort from '.';
+
+const ProductList = () => {
+  const { fetchProducts, products, toggleFilter } = useProducts();
+
+  useEffect(() => {
+    fetchProducts();
+  }, [fetchProducts]);
+
+  return (
+    <>
+      <button onClick={() => toggleFilter('size', 'L')}>Size L</button>
+      <ul aria-label="Products">
+        {products.map(({ id, title }) => (
+          <li key={id}>{title}</li>
+        ))}
+      </ul>
+    </>
+  );
+};
+
+describe('[components] - ProductSort', () => {
+  beforeEach(() => {
+    jest.spyOn(productsService, 'getProducts').mockResolvedValue(mockProducts);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const setup = async () => {
+    renderWithThemeProvider(
+      <ProductsProvider>
+        <ProductSort />
+        <ProductList />
+      </ProductsProvider>
+    );
+
+    await screen.findAllByRole('listitem');
+  };
+
+  const getTitles = () =>
+    screen.getAllByRole('listitem').map((item) => item.textContent);
+
+  test('should start in the catalog order', async () => {
+    await setup();
+
+    expect(screen.getByLabelText('Sort by')).toHaveValue('featured');
+    expect(getTitles()).toEqual(mockProducts.map(({ title }) => title));
+  });
+
+  test('should keep the sort when the filters change', async () => {
+    await setup();
+
+    fireEvent.change(screen.getByLabelText('Sort by'), {
+      target: { value: 'priceDesc' },
+    });
+
+    expect(getTitles()).toEqual([
+      'Skater Black Sweatshirt',
+      'Basic Cactus White T-shirt',
+      'Cropped Stay Groovy off white',
+    ]);
+
+    fireEvent.click(screen.getByText('Size L'));
+
+    expect(getTitles()).toEqual([
+      'Basic Cactus White T-shirt',
+      'Cropped Stay Groovy off white',
+    ]);
+  });
+});
@@ -0,0 +1,33 @@
+import { ChangeEvent } from 'react';
+
+import {
+  useProductsActions,
+  useProductsState,
+} from 'contexts/products-context';
+import { IProductSort, ProductSortId } from 'models';
+import { productSorts } from 'services/product-sort';
+
+import * as S from './style';
+
+const ProductSort = () => {
+  const sort = useProductsState(({ sort }) => sort);
+  const { sortProducts } = useProductsActions();
+
+  const handleChange = (event: ChangeEvent<HTMLSelectElement>) =>
+    sortProducts(event.target.value as ProductSortId);
+
+  return (
+    <S.Container>
+      <label htmlFor="product-sort">Sort by</label>
+      <S.Select id="product-sort" value={sort} onChange={handleChange}>
+        {productSorts.map(({ id, label }: IProductSort) => (
+          <option key={id} value={id}>
+            {label}
+          </option>
+        ))}
+      </S.Select>
+    </S.Container>
+  );
+};
+
+export default ProductSort;
@@ -0,0 +1,21 @@
+import styled from 'styled-components/macro';
+
+export const Container = styled.div`
+  text-align: right;
+
+  label {
+    margin-right: 8px;
+  }
+`;
+
+export const Select = styled.select`
+  padding: 4px 8px;
+  border: 1px solid #ececec;
+  background-color: #fff;
+  font-size: inherit;
+  cursor: pointer;
+
+  &:focus-visible {
+    outline: 3px solid ${({ theme }) => theme.colors.secondary};
+  }
+`;
@@ -1,15 +1,23 @@
+import { fireEvent, screen } from '@testing-library/react';
+
 import { renderWithThemeProvider } from 'utils/test/test-utils';
-import { CartProvider } from 'contexts/cart-context';
+import { CartProvider, useCart } from 'contexts/cart-context';
+import { WishlistProvider } from 'contexts/wishlist-context';
+import { CurrencyProvider } from 'contexts/currency-context';
 import { mockCartProducts } from 'utils/test/mocks';
 
 import Product from '.';
 
 describe('[components] - Product', () => {
-  const setup = (props = {}) => {
+  const setup = (props = {}, locale = 'en-US') => {
     return renderWithThemeProvider(
-      <CartProvider>
-        <Product product={mockCartProducts[0]} {...props} />
-      </CartProvider>
+      <CurrencyProvider locale={locale}>
+        <CartProvider>
+          <WishlistProvider>
+            <Product product={mockCartProducts[0]} {...props} />
+          </WishlistProvider>
+        </CartProvider>
+      </CurrencyProvider>
     );
   };
 
@@ -17,4 +25,51 @@ describe('[components] - Product', () => {
     const view = setup();
     expect(view).toMatchSnapshot();
   });
+
+  test('should put the currency symbol where the locale does', () => {
+    setup({}, 'de-DE');
+
+    expect(
+      screen.getByText(
+        (_, element) =>
+          element?.tagName === 'P' && element.textContent === '10,90$'
+      )
+    ).toBeInTheDocument();
+  });
+
+  test('should ask for a size before adding to the cart', () => {
+    const CartLines = () => {
+      const { products } = useCart();
+      return (
+        <ul>
+          {products.map((p) => (
+            <li key={p.selectedSize}>{`${p.title} - ${p.selectedSize}`}</li>
+          ))}
+        </ul>
+      );
+    };
+
+    renderWithThemeProvider(
+      <CurrencyProvider>
+        <CartProvider>
+          <WishlistProvider>
+            <Product product={mockCartProducts[0]} />
+            <CartLines />
+          </WishlistProvider>
+        </CartProvider>
+      </CurrencyProvider>
+    );
+
+    const addButton = screen.getByRole('button', { name: 'Select a size' });
+    expect(addButton).toBeDisabled();
+    fireEvent.click(addButton);
+    expect(screen.queryByRole('listitem')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'XL' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Add to cart' }));
+
+    expect(screen.getByRole('listitem')).toHaveTextContent(
+      `${mockCartProducts[0].title} - XL`
+    );
+  });
 });
@@ -1,74 +1,172 @@
-import { KeyboardEvent } from 'react';
+import { KeyboardEvent, useEffect, useState } from 'react';
 
-import formatPrice from 'utils/formatPrice';
 import { IProduct } from 'models';
+import { getInstallmentPlan, MAX_INSTALLMENTS } from 'services/installments';
+import formatInstallments from 'utils/formatInstallments';
+import { money } from 'utils/money';
+import Highlight from 'commons/Highlight';
+import ProductDetail from './ProductDetail';
+import { tokenize } from 'services/search';
 
-import { useCart } from 'contexts/cart-context';
+import { useCartActions } from 'contexts/cart-context';
+import { useCurrency } from 'contexts/currency-context';
+import { useWishlist } from 'contexts/wishlist-context';
 
 import * as S from './style';
 
 interface IProps {
   product: IProduct;
+  /* Words the search matched, highlighted on the card */
+  highlights?: string[];
 }
 
-const Product = ({ product }: IProps) => {
-  const { openCart, addProduct } = useCart();
+const Product = ({ product, highlights }: IProps) => {
+  const { openCart, addProduct } = useCartActions();
+  const { convert, formatPrice, getPriceParts } = useCurrency();
+  const { isInWishlist, toggleWishlist } = useWishlist();
   const {
     sku,
     title,
+    style,
+    description,
     price,
     installments,
     currencyId,
-    currencyFormat,
     isFreeShipping,
+    availableSizes,
   } = product;
+  const isSaved = isInWishlist(product);
+  const [isDetailOpen, setIsDetailOpen] = useState(false);
+  const [isImageLoaded, setIsImageLoaded] = useState(false);
+  const [selectedSize, setSelectedSize] = useState<string | undefined>(
+    availableSizes.length === 1 ? availableSizes[0] : undefined
+  );
+
+  // The card image is a CSS background, which has no load event of its own;
+  // loading the same file here tells us when the browser has it.
+  useEffect(() => {
+    const image = new Image();
+
+    image.onload = () => setIsImageLoaded(true);
+    image.src = require(`static/products/${sku}-1-product.webp`);
+
+    return () => {
+      image.onload = null;
+    };
+  }, [sku]);
+
+  const hasHighlight = (text: string) =>
+    tokenize(text).some((word: string) => highlights?.includes(word));
+  // When the title didn't match, show the field that did.
+  const matchedDetail =
+    highlights && !hasHighlight(title)
+      ? [style, description].find(hasHighlight)
+      : undefined;
 
-  const formattedPrice = formatPrice(price, currencyId);
+  const priceParts = getPriceParts(money(price, currencyId));
   let productInstallment;
 
   if (installments) {
-    const installmentPrice = price / installments;
+    const plan = getInstallmentPlan(
+      convert(money(price, currencyId)),
+      Math.min(installments, MAX_INSTALLMENTS)
+    );
 
     productInstallment = (
       <S.Installment>
-        <span>or {installments} x</span>
-        <b>
-          {currencyFormat}
-          {formatPrice(installmentPrice, currencyId)}
-        </b>
+        <span>or </span>
+        <b>{formatInstallments(plan, formatPrice)}</b>
       </S.Installment>
     );
   }
 
   const handleAddProduct = () => {
-    addProduct({ ...product, quantity: 1 });
+    if (!selectedSize) {
+      return;
+    }
+
+    addProduct({ ...product, quantity: 1, selectedSize });
     openCart();
   };
 
   const handleAddProductWhenEnter = (event: KeyboardEvent) => {
+    // Keys pressed on the size buttons bubble up here; only the card itself
+    // adds to the cart.
+    if (event.target !== event.currentTarget) {
+      return;
+    }
+
     if (event.key === 'Enter' || event.code === 'Space') {
-      addProduct({ ...product, quantity: 1 });
-      openCart();
+      handleAddProduct();
     }
   };
 
   return (
-    <S.Container onKeyUp={handleAddProductWhenEnter} sku={sku} tabIndex={1}>
-      {isFreeShipping && <S.Stopper>Free shipping</S.Stopper>}
-      <S.Image alt={title} />
-      <S.Title>{title}</S.Title>
-      <S.Price>
-        <S.Val>
-          <small>{currencyFormat}</small>
-          <b>{formattedPrice.substring(0, formattedPrice.length - 3)}</b>
-          <span>{formattedPrice.substring(formattedPrice.length - 3)}</span>
-        </S.Val>
-        {productInstallment}
-      </S.Price>
-      <S.BuyButton onClick={handleAddProduct} tabIndex={-1}>
-        Add to cart
-      </S.BuyButton>
-    </S.Container>
+    <>
+      <S.Container onKeyUp={handleAddProductWhenEnter} sku={sku} tabIndex={1}>
+        {isFreeShipping && <S.Stopper>Free shipping</S.Stopper>}
+        <S.WishlistButton
+          isSaved={isSaved}
+          aria-pressed={isSaved}
+          aria-label={`Save ${title} to wishlist`}
+          onClick={() => toggleWishlist(product)}
+        >
+          {isSaved ? '♥' : '♡'}
+        </S.WishlistButton>
+        <S.Image
+          aria-label={`View details for ${title}`}
+          onClick={() => setIsDetailOpen(true)}
+        >
+          <S.ImagePlaceholder sku={sku} isHidden={isImageLoaded} />
+        </S.Image>
+        <S.Title>
+          <Highlight text={title} matches={highlights} />
+        </S.Title>
+        {matchedDetail && (
+          <S.Match>
+            <Highlight text={matchedDetail} matches={highlights} />
+          </S.Match>
+        )}
+        <S.Price>
+          <S.Val isCurrencyAfter={priceParts.currencyPosition === 'after'}>
+            {priceParts.currencyPosition === 'before' && (
+              <small>{priceParts.currency}</small>
+            )}
+            <b>{priceParts.integer}</b>
+            <span>{priceParts.fraction}</span>
+            {priceParts.currencyPosition === 'after' && (
+              <small>{priceParts.currency}</small>
+            )}
+          </S.Val>
+          {productInstallment}
+        </S.Price>
+        <S.Sizes role="group" aria-label="Sizes">
+          {availableSizes.map((size) => (
+            <S.SizeButton
+              key={size}
+              isSelected={size === selectedSize}
+              aria-pressed={size === selectedSize}
+              onClick={() => setSelectedSize(size)}
+            >
+              {size}
+            </S.SizeButton>
+          ))}
+        </S.Sizes>
+        <S.BuyButton
+          onClick={handleAddProduct}
+          disabled={!selectedSize}
+          tabIndex={-1}
+        >
+          {selectedSize ? 'Add to cart' : 'Select a size'}
+        </S.BuyButton>
+      </S.Container>
+      {isDetailOpen && (
+        <ProductDetail
+          product={product}
+          onClose={() => setIsDetailOpen(false)}
+        />
+      )}
+    </>
   );
 };
 
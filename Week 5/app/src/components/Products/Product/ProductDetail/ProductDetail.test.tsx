@@ -0,0 +1,161 @@
+import { fireEvent, screen, within } from '@testing-library/react';
+
+import { renderWithThemeProvider } from 'utils/test/test-utils';
+import { CartProvider, useCart } from 'contexts/cart-context';
+import { WishlistProvider } from 'contexts/wishlist-context';
+import { CurrencyProvider } from 'contexts/currency-context';
+import { mockProducts } from 'utils/test/mocks';
+
+import Product from '..';
+
+const [groovy] = mockProducts;
+
+const CartLines = () => {
+  const { products, isOpen } = useCart();
+
+  return (
+    <ul aria-label={isOpen ? 'Open cart' : 'Closed cart'}>
+      {products.map((p) => (
+        <li key={p.selectedSize}>{`${p.title} - ${p.selectedSize}`}</li>
+      ))}
+    </ul>
+  );
+};
+
+describe('[components] - ProductDetail', () => {
+  const setup = () => {
+    renderWithThemeProvider(
+      <CurrencyProvider>
+        <CartProvider>
+          <WishlistProvider>
+            <Product product={groovy} />
+            <CartLines />
+          </WishlistProvider>
+        </CartProvider>
+      </CurrencyProvider>
+    );
+
+    const opener = screen.getByRole('button', {
+      name: `View details for ${groovy.title}`,
+    });
+    opener.focus();
+    fireEvent.click(opener);
+
+    return screen.getByRole('dialog', { name: groovy.title });
+  };
+
+  test('should open from the product card with the full details', () => {
+    const dialog = setup();
+
+    expect(within(dialog).getByText(groovy.description)).toBeInTheDocument();
+    expect(within(dialog).getByText(groovy.style)).toBeInTheDocument();
+    expect(within(dialog).getByText('$10.90')).toBeInTheDocument();
+  });
+
+  test('should break the price down into installments', () => {
+    const dialog = setup();
+    const plans = within(
+      within(dialog).getByRole('list', { name: 'Installments' })
+    ).getAllByRole('listitem');
+
+    expect(plans).toHaveLength(9);
+    expect(plans[2]).toHaveTextContent(
+      '1 x $3.64 + 2 x $3.63total $10.90, interest-free'
+    );
+    expect(plans[8]).toHaveTextContent('2.49% a month');
+  });
+
+  test('should switch photos from the thumbnails and on hover', () => {
+    const dialog = setup();
+    const zoom = within(dialog).getByRole('button', { name: 'Zoom in' });
+
+    expect(within(dialog).getByAltText(/(1 of 2)/)).toBeInTheDocument();
+
+    fireEvent.mouseEnter(zoom);
+    expect(within(dialog).getByAltText(/(2 of 2)/)).toBeInTheDocument();
+    fireEvent.mouseLeave(zoom);
+
+    fireEvent.click(
+      within(dialog).getByRole('button', { name: 'Show view 2' })
+    );
+    expect(within(dialog).getByAltText(/(2 of 2)/)).toBeInTheDocument();
+  });
+
+  test('should zoom the photo in and out', () => {
+    const dialog = setup();
+
+    fireEvent.click(within(dialog).getByRole('button', { name: 'Zoom in' }));
+    expect(
+      within(dialog).getByRole('button', { name: 'Zoom out' })
+    ).toHaveAttribute('aria-pressed', 'true');
+
+    fireEvent.click(within(dialog).getByRole('button', { name: 'Zoom out' }));
+    expect(
+      within(dialog).getByRole('button', { name: 'Zoom in' })
+    ).toHaveAttribute('aria-pressed', 'false');
+  });
+
+  test('should add the picked size to the cart', () => {
+    const dialog = setup();
+
+    expect(
+      within(dialog).getByRole('button', { name: 'Select a size' })
+    ).toBeDisabled();
+
+    fireEvent.click(within(dialog).getByRole('button', { name: 'L' }));
+    fireEvent.click(
+      within(dialog).getByRole('button', { name: 'Add to cart' })
+    );
+
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    expect(
+      within(screen.getByRole('list', { name: 'Open cart' })).getByRole(
+        'listitem'
+      )
+    ).toHaveTextContent(`${groovy.title} - L`);
+  });
+
+  test('should close with the close button', () => {
+    setup();
+
+    fireEvent.click(screen.getByTitle('close product details'));
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  test('should move focus into the dialog and back to the card', () => {
+    setup();
+
+    expect(screen.getByTitle('close product details')).toHaveFocus();
+
+    fireEvent.click(screen.getByTitle('close product details'));
+    expect(
+      screen.getByRole('button', { name: `View details for ${groovy.title}` })
+    ).toHaveFocus();
+  });
+
+  test('should close with Escape', () => {
+    setup();
+    // Escape goes to whatever has focus, not the dialog itself.
+    const focused = screen.getByTitle('close product details');
+    expect(focused).toHaveFocus();
+
+    fireEvent.keyDown(focused, { key: 'Escape' });
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  test('should keep Tab inside the dialog', () => {
+    const dialog = setup();
+    const closeButton = screen.getByTitle('close product details');
+
+    fireEvent.click(within(dialog).getByRole('button', { name: 'L' }));
+    const lastButton = within(dialog).getByRole('button', {
+      name: 'Add to cart',
+    });
+
+    fireEvent.keyDown(closeButton, { key: 'Tab', shiftKey: true });
+    expect(lastButton).toHaveFocus();
+
+    fireEvent.keyDown(lastButton, { key: 'Tab' });
+    expect(closeButton).toHaveFocus();
+  });
+});
@@ -0,0 +1,224 @@
+import { KeyboardEvent, MouseEvent, useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+
+import { IInstallmentPlan, IProduct } from 'models';
+import { getInstallmentPlans } from 'services/installments';
+import formatInstallments from 'utils/formatInstallments';
+import formatMonthlyRate from 'utils/formatMonthlyRate';
+import getProductImages from 'utils/getProductImages';
+import { money } from 'utils/money';
+
+import { useCartActions } from 'contexts/cart-context';
+import { useCurrency } from 'contexts/currency-context';
+
+import * as S from './style';
+
+interface IProps {
+  product: IProduct;
+  onClose(): void;
+}
+
+const FOCUSABLE_SELECTOR =
+  'button:not([disabled]), [href], input, select, textarea, [tabindex]:not([tabindex="-1"])';
+
+const ProductDetail = ({ product, onClose }: IProps) => {
+  const { openCart, addProduct } = useCartActions();
+  const { convert, formatPrice } = useCurrency();
+  const {
+    sku,
+    title,
+    style,
+    description,
+    price,
+    installments,
+    currencyId,
+    isFreeShipping,
+    availableSizes,
+  } = product;
+  const images = getProductImages(sku);
+  const [imageIndex, setImageIndex] = useState(0);
+  const [isHovered, setIsHovered] = useState(false);
+  const [isZoomed, setIsZoomed] = useState(false);
+  const [zoomOrigin, setZoomOrigin] = useState('50% 50%');
+  const [selectedSize, setSelectedSize] = useState<string | undefined>(
+    availableSizes.length === 1 ? availableSizes[0] : undefined
+  );
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+
+  // Focus moves into the dialog and back to whatever opened it on close.
+  // The page can't scroll meanwhile, so the card that opened it stays put.
+  useEffect(() => {
+    const opener = document.activeElement as HTMLElement | null;
+    const { overflow } = document.body.style;
+
+    closeButtonRef.current?.focus();
+    document.body.style.overflow = 'hidden';
+
+    return () => {
+      document.body.style.overflow = overflow;
+      opener?.focus();
+    };
+  }, []);
+
+  // Hovering the front photo previews the back, like the product cards do.
+  const shownIndex =
+    isHovered && !isZoomed && imageIndex === 0 && images.length > 1
+      ? 1
+      : imageIndex;
+  const plans = getInstallmentPlans(
+    convert(money(price, currencyId)),
+    installments
+  );
+
+  const selectImage = (index: number) => {
+    setImageIndex(index);
+    setIsZoomed(false);
+  };
+
+  const handleZoomMove = (event: MouseEvent<HTMLButtonElement>) => {
+    const { left, top, width, height } =
+      event.currentTarget.getBoundingClientRect();
+
+    if (!width || !height) {
+      return;
+    }
+
+    setZoomOrigin(
+      `${((event.clientX - left) / width) * 100}% ${
+        ((event.clientY - top) / height) * 100
+      }%`
+    );
+  };
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      onClose();
+      return;
+    }
+
+    if (event.key !== 'Tab' || !dialogRef.current) {
+      return;
+    }
+
+    // Tab cycles through the dialog instead of leaving it for the page.
+    const focusable = Array.from(
+      dialogRef.current.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR)
+    );
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+
+    if (event.shiftKey && document.activeElement === first) {
+      event.preventDefault();
+      last.focus();
+    } else if (!event.shiftKey && document.activeElement === last) {
+      event.preventDefault();
+      first.focus();
+    }
+  };
+
+  const handleAddProduct = () => {
+    if (!selectedSize) {
+      return;
+    }
+
+    addProduct({ ...product, quantity: 1, selectedSize });
+    onClose();
+    openCart();
+  };
+
+  // Rendered into <body> so the dialog isn't laid out, or windowed, with
+  // the product grid.
+  return createPortal(
+    <S.Overlay>
+      <S.Dialog
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="product-detail-title"
+        onKeyDown={handleKeyDown}
+      >
+        <S.CloseButton
+          ref={closeButtonRef}
+          onClick={onClose}
+          title="close product details"
+        >
+          X
+        </S.CloseButton>
+
+        <S.Gallery>
+          <S.ZoomButton
+            aria-label={isZoomed ? 'Zoom out' : 'Zoom in'}
+            aria-pressed={isZoomed}
+            isZoomed={isZoomed}
+            onClick={() => setIsZoomed(!isZoomed)}
+            onMouseEnter={() => setIsHovered(true)}
+            onMouseLeave={() => setIsHovered(false)}
+            onMouseMove={handleZoomMove}
+          >
+            <S.MainImage
+              src={images[shownIndex]}
+              alt={`${title} (${shownIndex + 1} of ${images.length})`}
+              style={{ transformOrigin: zoomOrigin }}
+            />
+          </S.ZoomButton>
+          <S.Thumbnails role="group" aria-label="Photos">
+            {images.map((image: string, index: number) => (
+              <S.Thumbnail
+                key={image}
+                isSelected={index === imageIndex}
+                aria-label={`Show view ${index + 1}`}
+                aria-pressed={index === imageIndex}
+                onClick={() => selectImage(index)}
+              >
+                <img src={image} alt="" />
+              </S.Thumbnail>
+            ))}
+          </S.Thumbnails>
+        </S.Gallery>
+
+        <S.Details>
+          <S.Title id="product-detail-title">{title}</S.Title>
+          {style && <S.Style>{style}</S.Style>}
+          <S.Price>{formatPrice(money(price, currencyId))}</S.Price>
+          {isFreeShipping && <S.FreeShipping>Free shipping</S.FreeShipping>}
+          {description && <S.Description>{description}</S.Description>}
+
+          <S.Sizes role="group" aria-label="Sizes">
+            {availableSizes.map((size: string) => (
+              <S.SizeButton
+                key={size}
+                isSelected={size === selectedSize}
+                aria-pressed={size === selectedSize}
+                onClick={() => setSelectedSize(size)}
+              >
+                {size}
+              </S.SizeButton>
+            ))}
+          </S.Sizes>
+
+          {plans.length > 1 && (
+            <S.Installments aria-label="Installments">
+              {plans.map((plan: IInstallmentPlan) => (
+                <li key={plan.count}>
+                  <span>{formatInstallments(plan, formatPrice)}</span>
+                  <span>
+                    total {formatPrice(plan.total)},{' '}
+                    {formatMonthlyRate(plan.monthlyRate)}
+                  </span>
+                </li>
+              ))}
+            </S.Installments>
+          )}
+
+          <S.BuyButton onClick={handleAddProduct} disabled={!selectedSize}>
+            {selectedSize ? 'Add to cart' : 'Select a size'}
+          </S.BuyButton>
+        </S.Details>
+      </S.Dialog>
+    </S.Overlay>,
+    document.body
+  );
+};
+
+export default ProductDetail;
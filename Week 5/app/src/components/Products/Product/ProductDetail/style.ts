@@ -0,0 +1,168 @@
+import styled from 'styled-components/macro';
+
+import { Sizes as CardSizes } from '../style';
+
+export { BuyButton, SizeButton } from '../style';
+
+export const Overlay = styled.div`
+  position: fixed;
+  top: 0;
+  left: 0;
+  width: 100%;
+  height: 100%;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  background-color: rgba(0, 0, 0, 0.6);
+  z-index: 100;
+`;
+
+export const Dialog = styled.div`
+  position: relative;
+  box-sizing: border-box;
+  display: grid;
+  grid-template-columns: 1fr;
+  gap: 30px;
+  width: 100%;
+  max-width: 860px;
+  max-height: 100%;
+  overflow-y: auto;
+  padding: 30px;
+  background-color: #fff;
+  color: ${({ theme }) => theme.colors.primary};
+  text-align: left;
+
+  @media only screen and (min-width: ${({ theme: { breakpoints } }) =>
+      breakpoints.tablet}) {
+    grid-template-columns: 1fr 1fr;
+  }
+`;
+
+export const CloseButton = styled.button`
+  position: absolute;
+  top: 15px;
+  right: 15px;
+  width: 30px;
+  height: 30px;
+  border: 0;
+  color: #ececec;
+  background-color: ${({ theme }) => theme.colors.primary};
+  cursor: pointer;
+  z-index: 1;
+
+  &:focus-visible {
+    outline: 3px solid ${({ theme }) => theme.colors.secondary};
+  }
+`;
+
+export const Gallery = styled.div``;
+
+interface IZoomButton {
+  isZoomed: boolean;
+}
+export const ZoomButton = styled.button<IZoomButton>`
+  display: block;
+  width: 100%;
+  padding: 0;
+  border: 0;
+  overflow: hidden;
+  background: #eee;
+  cursor: ${({ isZoomed }) => (isZoomed ? 'zoom-out' : 'zoom-in')};
+
+  img {
+    transform: scale(${({ isZoomed }) => (isZoomed ? 2 : 1)});
+  }
+
+  &:focus-visible {
+    outline: 3px solid ${({ theme }) => theme.colors.secondary};
+  }
+`;
+
+export const MainImage = styled.img`
+  display: block;
+  width: 100%;
+  transition: transform 0.2s;
+`;
+
+export const Thumbnails = styled.div`
+  display: flex;
+  gap: 10px;
+  margin-top: 10px;
+`;
+
+interface IThumbnail {
+  isSelected: boolean;
+}
+export const Thumbnail = styled.button<IThumbnail>`
+  width: 70px;
+  padding: 0;
+  border: 2px solid
+    ${({ theme, isSelected }) =>
+      isSelected ? theme.colors.secondary : 'transparent'};
+  background: #eee;
+  cursor: pointer;
+
+  img {
+    display: block;
+    width: 100%;
+  }
+
+  &:focus-visible {
+    outline: 3px solid ${({ theme }) => theme.colors.secondary};
+  }
+`;
+
+export const Details = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 12px;
+`;
+
+export const Title = styled.h2`
+  margin: 0;
+  padding-right: 40px;
+`;
+
+export const Style = styled.p`
+  margin: 0;
+  color: #8d8d8d;
+`;
+
+export const Price = styled.p`
+  margin: 0;
+  font-size: 1.5em;
+  font-weight: bold;
+`;
+
+export const FreeShipping = styled.p`
+  align-self: flex-start;
+  margin: 0;
+  padding: 5px;
+  font-size: 0.7em;
+  color: #ececec;
+  background-color: ${({ theme }) => theme.colors.primary};
+`;
+
+export const Description = styled.p`
+  margin: 0;
+  line-height: 1.5;
+`;
+
+export const Sizes = styled(CardSizes)`
+  justify-content: flex-start;
+`;
+
+export const Installments = styled.ul`
+  margin: 0;
+  padding: 0;
+  list-style: none;
+  font-size: 0.85em;
+  color: #5b5a5e;
+
+  li {
+    display: flex;
+    justify-content: space-between;
+    padding: 4px 0;
+    border-bottom: 1px solid #ececec;
+  }
+`;
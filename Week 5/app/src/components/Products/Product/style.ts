@@ -14,12 +14,48 @@ export const BuyButton = styled.button`
   &:focus-visible {
     outline: 3px solid ${({ theme }) => theme.colors.secondary};
   }
+
+  &:disabled {
+    cursor: not-allowed;
+    opacity: 0.6;
+  }
+`;
+
+export const Image = styled.button`
+  display: block;
+  padding: 0;
+  border: 0;
+  cursor: pointer;
+
+  &:focus-visible {
+    outline: 3px solid ${({ theme }) => theme.colors.secondary};
+  }
 `;
 
-interface IImage {
-  alt: string;
+interface IImagePlaceholder {
+  sku: number | string;
+  isHidden: boolean;
 }
-export const Image = styled.div<IImage>``;
+/*
+ * Blur-up stand-in for the card image: the cart thumbnail is a downscaled
+ * copy of the same -1-product photo, a fraction of its size.
+ */
+export const ImagePlaceholder = styled.span<IImagePlaceholder>`
+  position: absolute;
+  top: 0;
+  left: 0;
+  width: 100%;
+  height: 100%;
+  background-image: ${({ sku }) =>
+    `url(${require(`static/products/${sku}-1-cart.webp`)})`};
+  background-size: cover;
+  background-position: center;
+  filter: blur(12px);
+  transform: scale(1.1);
+  opacity: ${({ isHidden }) => (isHidden ? 0 : 1)};
+  transition: opacity 0.3s;
+  pointer-events: none;
+`;
 
 interface IContainer {
   sku: number | string;
@@ -37,10 +73,17 @@ export const Container = styled.div<IContainer>`
     outline: 3px solid ${({ theme }) => theme.colors.secondary};
   }
 
+  /* Words matched by the product search */
+  mark {
+    background-color: ${({ theme }) => theme.colors.secondary};
+    color: inherit;
+  }
+
   ${Image} {
     width: 100%;
     height: 270px;
     position: relative;
+    overflow: hidden;
     background-image: ${({ sku }) =>
       `url(${require(`static/products/${sku}-1-product.webp`)})`};
     background-repeat: no-repeat;
@@ -69,7 +112,7 @@ export const Container = styled.div<IContainer>`
         `url(${require(`static/products/${sku}-2-product.webp`)})`};
     }
 
-    ${BuyButton} {
+    ${BuyButton}:enabled {
       background-color: ${({ theme }) => theme.colors.secondary};
     }
   }
@@ -87,6 +130,31 @@ export const Stopper = styled.div`
   z-index: 1;
 `;
 
+interface IWishlistButton {
+  isSaved: boolean;
+}
+export const WishlistButton = styled.button<IWishlistButton>`
+  position: absolute;
+  top: 10px;
+  left: 10px;
+  width: 32px;
+  height: 32px;
+  padding: 0;
+  border: 0;
+  border-radius: 50%;
+  font-size: 18px;
+  line-height: 32px;
+  color: ${({ theme, isSaved }) =>
+    isSaved ? theme.colors.secondary : theme.colors.primary};
+  background-color: rgba(255, 255, 255, 0.8);
+  cursor: pointer;
+  z-index: 1;
+
+  &:focus-visible {
+    outline: 3px solid ${({ theme }) => theme.colors.secondary};
+  }
+`;
+
 export const Title = styled.p`
   position: relative;
   padding: 0 20px;
@@ -104,6 +172,12 @@ export const Title = styled.p`
   }
 `;
 
+export const Match = styled.p`
+  margin: 8px 20px 0;
+  font-size: 0.8em;
+  color: #8d8d8d;
+`;
+
 export const Price = styled.div`
   height: 60px;
 
@@ -115,11 +189,14 @@ export const Price = styled.div`
   }
 `;
 
-export const Val = styled.p`
+export const Val = styled.p<{ isCurrencyAfter?: boolean }>`
   margin: 0;
   b {
     font-size: 1.5em;
-    margin-left: 5px;
+    margin-left: ${({ isCurrencyAfter }) => (isCurrencyAfter ? 0 : '5px')};
+  }
+  small {
+    margin-left: ${({ isCurrencyAfter }) => (isCurrencyAfter ? '5px' : 0)};
   }
 `;
 
@@ -127,3 +204,38 @@ export const Installment = styled.p`
   margin: 0;
   color: #9c9b9b;
 `;
+
+export const Sizes = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  justify-content: center;
+  gap: 5px;
+  min-height: 30px;
+`;
+
+interface ISizeButton {
+  isSelected: boolean;
+}
+export const SizeButton = styled.button<ISizeButton>`
+  min-width: 30px;
+  height: 30px;
+  padding: 0 5px;
+  border-radius: 15px;
+  border: 1px solid
+    ${({ theme, isSelected }) =>
+      isSelected ? theme.colors.primary : 'transparent'};
+  font-size: 0.7em;
+  color: ${({ theme, isSelected }) =>
+    isSelected ? '#ececec' : theme.colors.primary};
+  background-color: ${({ theme, isSelected }) =>
+    isSelected ? theme.colors.primary : '#ececec'};
+  cursor: pointer;
+
+  &:hover {
+    border-color: ${({ theme }) => theme.colors.primary};
+  }
+
+  &:focus-visible {
+    outline: 3px solid ${({ theme }) => theme.colors.secondary};
+  }
+`;
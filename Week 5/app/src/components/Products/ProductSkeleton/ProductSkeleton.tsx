@@ -0,0 +1,22 @@
+import * as S from './style';
+
+/* Placeholder card shown while the catalog loads for the first time */
+const ProductSkeleton = () => (
+  <S.Container aria-hidden="true">
+    <S.Image />
+    <S.Title>
+      <S.Bar width="70%" />
+    </S.Title>
+    <S.Price>
+      <S.Bar width="40%" />
+      <br />
+      <S.Bar width="55%" />
+    </S.Price>
+    <S.Sizes>
+      <S.Bar width="100px" />
+    </S.Sizes>
+    <S.Button as="div">{'\u00a0'}</S.Button>
+  </S.Container>
+);
+
+export default ProductSkeleton;
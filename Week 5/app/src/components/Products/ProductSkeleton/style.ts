@@ -0,0 +1,69 @@
+import styled, { css } from 'styled-components/macro';
+
+import {
+  BuyButton,
+  Price,
+  Sizes,
+  Title as ProductTitle,
+} from '../Product/style';
+
+export { Price, Sizes };
+
+/* Grey blocks with a light sweep, standing in for text and images */
+const placeholder = css`
+  background: linear-gradient(90deg, #eee 25%, #f7f7f7 50%, #eee 75%);
+  background-size: 200% 100%;
+  animation: skeleton-shimmer 1.5s linear infinite;
+
+  @keyframes skeleton-shimmer {
+    0% {
+      background-position: 100% 0;
+    }
+
+    100% {
+      background-position: -100% 0;
+    }
+  }
+`;
+
+/* Same box as the Product card, so the grid doesn't move once it loads */
+export const Container = styled.div`
+  position: relative;
+  text-align: center;
+  box-sizing: border-box;
+  padding: 10px;
+  margin-bottom: 30px;
+`;
+
+export const Image = styled.div`
+  height: 270px;
+  ${placeholder}
+
+  @media only screen and (min-width: ${({ theme: { breakpoints } }) =>
+    breakpoints.tablet}) {
+    height: 320px;
+  }
+`;
+
+export const Title = styled(ProductTitle)`
+  &::before {
+    display: none;
+  }
+`;
+
+interface IBar {
+  width: string;
+}
+export const Bar = styled.span<IBar>`
+  display: inline-block;
+  width: ${({ width }) => width};
+  height: 1em;
+  border-radius: 4px;
+  vertical-align: middle;
+  ${placeholder}
+`;
+
+export const Button = styled(BuyButton)`
+  ${placeholder}
+  cursor: default;
+`;
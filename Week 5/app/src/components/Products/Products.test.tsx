@@ -1,15 +1,24 @@
+import { Profiler } from 'react';
+import { fireEvent, screen } from '@testing-library/react';
+
 import { renderWithThemeProvider } from 'utils/test/test-utils';
 import { mockProducts } from 'utils/test/mocks';
 
-import { CartProvider } from 'contexts/cart-context';
+import { CartProvider, useCartState } from 'contexts/cart-context';
+import { WishlistProvider } from 'contexts/wishlist-context';
+import { CurrencyProvider } from 'contexts/currency-context';
 import Products from '.';
 
 describe('[components] - Products', () => {
   const setup = (props = {}) => {
     return renderWithThemeProvider(
-      <CartProvider>
-        <Products products={mockProducts} {...props} />
-      </CartProvider>
+      <CurrencyProvider>
+        <CartProvider>
+          <WishlistProvider>
+            <Products products={mockProducts} {...props} />
+          </WishlistProvider>
+        </CartProvider>
+      </CurrencyProvider>
     );
   };
 
@@ -17,4 +26,42 @@ describe('[components] - Products', () => {
     const view = setup();
     expect(view).toMatchSnapshot();
   });
+
+  test('should show placeholder cards while loading', () => {
+    setup({ isLoading: true });
+
+    expect(screen.getByLabelText('Loading products')).toHaveAttribute(
+      'aria-busy',
+      'true'
+    );
+    expect(screen.queryByText(mockProducts[0].title)).not.toBeInTheDocument();
+  });
+
+  test('should not re-render the grid when the cart changes', () => {
+    const CartCount = () => {
+      const count = useCartState(({ products }) => products.length);
+      return <p>{`${count} in cart`}</p>;
+    };
+    const onRender = jest.fn();
+
+    renderWithThemeProvider(
+      <CurrencyProvider>
+        <CartProvider>
+          <WishlistProvider>
+            <Profiler id="grid" onRender={onRender}>
+              <Products products={mockProducts} />
+            </Profiler>
+            <CartCount />
+          </WishlistProvider>
+        </CartProvider>
+      </CurrencyProvider>
+    );
+    onRender.mockClear();
+
+    // The only card with a single size can go straight to the cart.
+    fireEvent.click(screen.getByRole('button', { name: 'Add to cart' }));
+
+    expect(screen.getByText('1 in cart')).toBeInTheDocument();
+    expect(onRender).not.toHaveBeenCalled();
+  });
 });
@@ -1,17 +1,43 @@
 import { IProduct } from 'models';
 import Product from './Product';
+import ProductSkeleton from './ProductSkeleton';
+import WindowedProducts from './WindowedProducts';
 
 import * as S from './style';
 
 interface IProps {
   products: IProduct[];
+  /* Search matches by product id */
+  highlights?: Record<number, string[]>;
+  /* Shows placeholder cards instead of `products` */
+  isLoading?: boolean;
 }
 
-const Products = ({ products }: IProps) => {
+/* Two rows of the widest grid */
+export const SKELETON_COUNT = 8;
+
+/* Past this many products only the cards near the viewport are rendered */
+export const WINDOWING_THRESHOLD = 60;
+
+const Products = ({ products, highlights = {}, isLoading = false }: IProps) => {
+  if (isLoading) {
+    return (
+      <S.Container aria-busy="true" aria-label="Loading products">
+        {Array.from({ length: SKELETON_COUNT }, (_, index) => (
+          <ProductSkeleton key={index} />
+        ))}
+      </S.Container>
+    );
+  }
+
+  if (products.length > WINDOWING_THRESHOLD) {
+    return <WindowedProducts products={products} highlights={highlights} />;
+  }
+
   return (
     <S.Container>
       {products?.map((p) => (
-        <Product product={p} key={p.sku} />
+        <Product product={p} highlights={highlights[p.id]} key={p.id} />
       ))}
     </S.Container>
   );
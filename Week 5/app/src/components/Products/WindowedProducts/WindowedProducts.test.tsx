@@ -0,0 +1,94 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+
+import { ThemeProvider } from 'commons/style/styled-components';
+import { theme } from 'commons/style/theme';
+import { CartProvider } from 'contexts/cart-context';
+import { WishlistProvider } from 'contexts/wishlist-context';
+import { CurrencyProvider } from 'contexts/currency-context';
+import { IProduct } from 'models';
+import { mockProducts } from 'utils/test/mocks';
+
+import WindowedProducts from '.';
+import { ESTIMATED_ROW_HEIGHT } from './WindowedProducts';
+
+// jsdom's window is 1024px wide: three columns.
+const catalog: IProduct[] = Array.from({ length: 300 }, (_, index) => ({
+  ...mockProducts[index % mockProducts.length],
+  id: index,
+  title: `Product ${index}`,
+}));
+
+describe('[components] - WindowedProducts', () => {
+  let getBoundingClientRect: jest.SpyInstance;
+
+  beforeEach(() => {
+    getBoundingClientRect = jest.spyOn(
+      HTMLElement.prototype,
+      'getBoundingClientRect'
+    );
+  });
+
+  afterEach(() => {
+    getBoundingClientRect.mockRestore();
+  });
+
+  const scrollGridTo = (scrollTop: number) => {
+    getBoundingClientRect.mockReturnValue({ top: -scrollTop } as DOMRect);
+    fireEvent.scroll(window);
+  };
+
+  const renderGrid = (products: IProduct[]) => (
+    <ThemeProvider theme={theme}>
+      <CurrencyProvider>
+        <CartProvider>
+          <WishlistProvider>
+            <WindowedProducts products={products} highlights={{}} />
+          </WishlistProvider>
+        </CartProvider>
+      </CurrencyProvider>
+    </ThemeProvider>
+  );
+
+  const setup = () => render(renderGrid(catalog));
+
+  const getRenderedCards = () =>
+    screen.getAllByRole('button', { name: /^View details for/ });
+
+  test('should only render the rows around the viewport', () => {
+    setup();
+
+    // Two rows fill the 768px viewport, plus two rows of overscan.
+    expect(getRenderedCards()).toHaveLength(4 * 3);
+    expect(screen.getByText('Product 0')).toBeInTheDocument();
+    expect(screen.queryByText('Product 12')).not.toBeInTheDocument();
+  });
+
+  test('should move the window with the page scroll', () => {
+    setup();
+
+    scrollGridTo(ESTIMATED_ROW_HEIGHT * 10);
+
+    expect(screen.queryByText('Product 23')).not.toBeInTheDocument();
+    expect(screen.getByText('Product 24')).toBeInTheDocument();
+    expect(screen.getByText('Product 35')).toBeInTheDocument();
+    expect(getRenderedCards()[0]).toHaveAccessibleName(
+      'View details for Product 24'
+    );
+  });
+
+  test('should keep the scroll position and focused card when filters change', () => {
+    const view = setup();
+    scrollGridTo(ESTIMATED_ROW_HEIGHT * 10);
+    screen.getByRole('button', { name: 'View details for Product 30' }).focus();
+
+    // Filtering out the first rows leaves the viewport where it was.
+    view.rerender(renderGrid(catalog.slice(3)));
+
+    expect(getRenderedCards()[0]).toHaveAccessibleName(
+      'View details for Product 27'
+    );
+    expect(
+      screen.getByRole('button', { name: 'View details for Product 30' })
+    ).toHaveFocus();
+  });
+});
@@ -0,0 +1,106 @@
+import { useEffect, useLayoutEffect, useRef, useState } from 'react';
+
+import { IProduct } from 'models';
+import getGridColumns from 'utils/getGridColumns';
+import getGridWindow from 'utils/getGridWindow';
+import Product from '../Product';
+
+import * as S from '../style';
+
+interface IProps {
+  products: IProduct[];
+  highlights: Record<number, string[]>;
+}
+
+/* A card row on a tablet-sized screen, until a real one has been measured */
+export const ESTIMATED_ROW_HEIGHT = 600;
+
+/*
+ * Renders only the rows around the viewport; padding stands in for the rest
+ * so the page keeps its full height. Cards stay in DOM order, which keeps the
+ * tab order, and are keyed by id, so the ones still on screen survive a
+ * filter change. The window follows the page scroll, which filters leave
+ * alone.
+ */
+const WindowedProducts = ({ products, highlights }: IProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [columns, setColumns] = useState(() =>
+    getGridColumns(window.innerWidth)
+  );
+  const [rowHeight, setRowHeight] = useState(ESTIMATED_ROW_HEIGHT);
+  const [viewport, setViewport] = useState({
+    scrollTop: 0,
+    height: window.innerHeight,
+  });
+
+  useEffect(() => {
+    const handleViewportChange = () => {
+      if (!containerRef.current) {
+        return;
+      }
+
+      setColumns(getGridColumns(window.innerWidth));
+      setViewport({
+        scrollTop: -containerRef.current.getBoundingClientRect().top,
+        height: window.innerHeight,
+      });
+    };
+
+    handleViewportChange();
+    window.addEventListener('scroll', handleViewportChange, { passive: true });
+    window.addEventListener('resize', handleViewportChange);
+
+    return () => {
+      window.removeEventListener('scroll', handleViewportChange);
+      window.removeEventListener('resize', handleViewportChange);
+    };
+  }, []);
+
+  const rowCount = Math.ceil(products.length / columns);
+  const { startRow, endRow } = getGridWindow({
+    itemCount: products.length,
+    columns,
+    rowHeight,
+    scrollTop: viewport.scrollTop,
+    viewportHeight: viewport.height,
+  });
+
+  // Rows get the height of the tallest card seen so far, so the padding
+  // matches the rows it replaces.
+  useLayoutEffect(() => {
+    const cards = Array.from(containerRef.current?.children || []);
+    const tallestCard = Math.max(
+      0,
+      ...cards.map((card: Element) => {
+        const { marginTop, marginBottom } = window.getComputedStyle(card);
+
+        return (
+          (card as HTMLElement).offsetHeight +
+          (parseFloat(marginTop) || 0) +
+          (parseFloat(marginBottom) || 0)
+        );
+      })
+    );
+
+    if (tallestCard > rowHeight) {
+      setRowHeight(tallestCard);
+    }
+  }, [products, startRow, endRow, columns, rowHeight]);
+
+  return (
+    <S.WindowedContainer
+      ref={containerRef}
+      style={{
+        gridAutoRows: `${rowHeight}px`,
+        paddingTop: startRow * rowHeight,
+        paddingBottom: (rowCount - endRow) * rowHeight,
+      }}
+    >
+      {products.slice(startRow * columns, endRow * columns).map((p) => (
+        <Product product={p} highlights={highlights[p.id]} key={p.id} />
+      ))}
+    </S.WindowedContainer>
+  );
+};
+
+export default WindowedProducts;
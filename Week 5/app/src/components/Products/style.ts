@@ -1,16 +1,23 @@
 import styled from 'styled-components/macro';
 
+import { gridColumns } from 'utils/getGridColumns';
+
 export const Container = styled.div`
   display: grid;
-  grid-template-columns: repeat(2, 1fr);
+  grid-template-columns: repeat(${gridColumns.mobile}, 1fr);
 
   @media only screen and (min-width: ${({ theme: { breakpoints } }) =>
       breakpoints.tablet}) {
-    grid-template-columns: repeat(3, 1fr);
+    grid-template-columns: repeat(${gridColumns.tablet}, 1fr);
   }
 
   @media only screen and (min-width: ${({ theme: { breakpoints } }) =>
       breakpoints.desktop}) {
-    grid-template-columns: repeat(4, 1fr);
+    grid-template-columns: repeat(${gridColumns.desktop}, 1fr);
   }
 `;
+
+/* Cards keep their own height so they can be measured */
+export const WindowedContainer = styled(Container)`
+  align-items: start;
+`;
@@ -0,0 +1,76 @@
+import { fireEvent, screen } from '@testing-library/react';
+
+import { renderWithThemeProvider } from 'utils/test/test-utils';
+import { ProductsProvider } from 'contexts/products-context';
+import { CartProvider } from 'contexts/cart-context';
+import { WishlistProvider } from 'contexts/wishlist-context';
+import { CurrencyProvider } from 'contexts/currency-context';
+import * as productsService from 'services/products';
+import { mockProducts } from 'utils/test/mocks';
+
+import App from 'components/App';
+
+describe('[components] - Search', () => {
+  beforeEach(() => {
+    jest.spyOn(productsService, 'getProducts').mockResolvedValue(mockProducts);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const setup = async () => {
+    renderWithThemeProvider(
+      <CurrencyProvider>
+        <ProductsProvider>
+          <CartProvider>
+            <WishlistProvider>
+              <App />
+            </WishlistProvider>
+          </CartProvider>
+        </ProductsProvider>
+      </CurrencyProvider>
+    );
+
+    await screen.findByText('Showing 1–3 of 3');
+  };
+
+  const search = (query: string) =>
+    fireEvent.change(screen.getByLabelText('Search products'), {
+      target: { value: query },
+    });
+
+  test('should show the products matching a misspelled query', async () => {
+    await setup();
+
+    search('whte');
+
+    expect(screen.getByText('Showing 1–2 of 2')).toBeInTheDocument();
+    expect(screen.getAllByText(/^white$/i, { selector: 'mark' })).toHaveLength(
+      2
+    );
+  });
+
+  test('should show the matched style when the title did not match', async () => {
+    await setup();
+
+    search('tony');
+
+    expect(screen.getByText('Showing 1–1 of 1')).toBeInTheDocument();
+    expect(screen.getByText('Tony', { selector: 'mark' })).toBeInTheDocument();
+  });
+
+  test('should combine with the size filters', async () => {
+    await setup();
+
+    search('white');
+    fireEvent.click(screen.getByRole('checkbox', { name: 'S 1' }));
+
+    expect(screen.getByText('Showing 1–1 of 1')).toBeInTheDocument();
+    // Only the groovy top, whose title has "white" in lower case, is left.
+    expect(screen.getByText('white', { selector: 'mark' })).toBeInTheDocument();
+    expect(
+      screen.queryByText('White', { selector: 'mark' })
+    ).not.toBeInTheDocument();
+  });
+});
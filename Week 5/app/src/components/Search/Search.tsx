@@ -0,0 +1,31 @@
+import { ChangeEvent } from 'react';
+
+import {
+  useProductsActions,
+  useProductsState,
+} from 'contexts/products-context';
+
+import * as S from './style';
+
+const Search = () => {
+  const query = useProductsState(({ query }) => query);
+  const { search } = useProductsActions();
+
+  const handleChange = (event: ChangeEvent<HTMLInputElement>) =>
+    search(event.target.value);
+
+  return (
+    <S.Container role="search">
+      <label htmlFor="product-search">Search products</label>
+      <S.Input
+        id="product-search"
+        type="search"
+        placeholder="Search by name, style…"
+        value={query}
+        onChange={handleChange}
+      />
+    </S.Container>
+  );
+};
+
+export default Search;
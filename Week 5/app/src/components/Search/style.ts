@@ -0,0 +1,23 @@
+import styled from 'styled-components/macro';
+
+export const Container = styled.div`
+  margin-bottom: 20px;
+
+  label {
+    display: block;
+    margin-bottom: 8px;
+    font-weight: bold;
+  }
+`;
+
+export const Input = styled.input`
+  width: 100%;
+  box-sizing: border-box;
+  padding: 8px;
+  border: 1px solid #ececec;
+  font-size: inherit;
+
+  &:focus-visible {
+    outline: 3px solid ${({ theme }) => theme.colors.secondary};
+  }
+`;
@@ -0,0 +1,26 @@
+import * as S from './style';
+
+interface IProps {
+  title: string;
+  message: string;
+  actionLabel: string;
+  onAction(): void;
+  /* Errors are announced right away; other states wait their turn */
+  isError?: boolean;
+}
+
+const StatusPanel = ({
+  title,
+  message,
+  actionLabel,
+  onAction,
+  isError = false,
+}: IProps) => (
+  <S.Container role={isError ? 'alert' : 'status'}>
+    <S.Title>{title}</S.Title>
+    <S.Message>{message}</S.Message>
+    <S.Action onClick={onAction}>{actionLabel}</S.Action>
+  </S.Container>
+);
+
+export default StatusPanel;
@@ -0,0 +1,35 @@
+import styled from 'styled-components/macro';
+
+export const Container = styled.div`
+  margin: 40px 15px;
+  padding: 30px 20px;
+  text-align: center;
+  border: 1px solid #ececec;
+  border-radius: 4px;
+`;
+
+export const Title = styled.h2`
+  margin: 0 0 10px;
+  font-size: 1.2em;
+`;
+
+export const Message = styled.p`
+  margin: 0 0 20px;
+  color: #5b5a5e;
+`;
+
+export const Action = styled.button`
+  padding: 10px 20px;
+  border: 0;
+  color: #fff;
+  background-color: ${({ theme }) => theme.colors.primary};
+  cursor: pointer;
+
+  &:hover {
+    background-color: #000;
+  }
+
+  &:focus-visible {
+    outline: 3px solid ${({ theme }) => theme.colors.secondary};
+  }
+`;
@@ -0,0 +1,130 @@
+import { fireEvent, screen, within } from '@testing-library/react';
+
+import { renderWithThemeProvider } from 'utils/test/test-utils';
+import { CartProvider, useCart } from 'contexts/cart-context';
+import { WishlistProvider } from 'contexts/wishlist-context';
+import { CurrencyProvider } from 'contexts/currency-context';
+import { saveCart } from 'services/cart-storage';
+import { saveWishlist } from 'services/wishlist-storage';
+import { mockCartProducts, mockProducts } from 'utils/test/mocks';
+
+import Cart from 'components/Cart';
+import Product from 'components/Products/Product';
+import Wishlist from '.';
+
+const CartLines = () => {
+  const { products } = useCart();
+
+  return (
+    <ul aria-label="Cart lines">
+      {products.map((p) => (
+        <li key={p.selectedSize}>{`${p.title} - ${p.selectedSize}`}</li>
+      ))}
+    </ul>
+  );
+};
+
+describe('[components] - Wishlist', () => {
+  const setup = (children = <Wishlist />) =>
+    renderWithThemeProvider(
+      <CurrencyProvider>
+        <CartProvider>
+          <WishlistProvider>
+            {children}
+            <CartLines />
+          </WishlistProvider>
+        </CartProvider>
+      </CurrencyProvider>
+    );
+
+  const openWishlist = () =>
+    fireEvent.click(screen.getByTitle('open wishlist'));
+
+  test('should save products from their card', () => {
+    setup(
+      <>
+        <Product product={mockProducts[1]} />
+        <Wishlist />
+      </>
+    );
+
+    const heart = screen.getByRole('button', {
+      name: `Save ${mockProducts[1].title} to wishlist`,
+    });
+
+    expect(heart).toHaveAttribute('aria-pressed', 'false');
+    fireEvent.click(heart);
+    expect(heart).toHaveAttribute('aria-pressed', 'true');
+    expect(
+      screen.getByTitle('Products in wishlist quantity')
+    ).toHaveTextContent('1');
+
+    openWishlist();
+    expect(screen.getByAltText(mockProducts[1].title)).toBeInTheDocument();
+  });
+
+  test('should show a message when nothing is saved', () => {
+    setup();
+    openWishlist();
+
+    expect(screen.getByText(/Save products with the ♥/)).toBeInTheDocument();
+  });
+
+  test('should move a product to the cart once a size is picked', () => {
+    saveWishlist([mockProducts[0]]);
+    setup();
+    openWishlist();
+
+    const moveButton = screen.getByRole('button', {
+      name: 'Pick a size to move to cart',
+    });
+    expect(moveButton).toBeDisabled();
+
+    fireEvent.change(
+      screen.getByLabelText(`Size of ${mockProducts[0].title}`),
+      { target: { value: 'L' } }
+    );
+    fireEvent.click(screen.getByRole('button', { name: 'Move to cart' }));
+
+    expect(
+      within(screen.getByRole('list', { name: 'Cart lines' })).getByRole(
+        'listitem'
+      )
+    ).toHaveTextContent(`${mockProducts[0].title} - L`);
+    expect(screen.getByText(/Save products with the ♥/)).toBeInTheDocument();
+  });
+
+  test('should move a cart line to the wishlist', () => {
+    saveCart([mockCartProducts[1]]);
+    setup(
+      <>
+        <Cart />
+        <Wishlist />
+      </>
+    );
+
+    fireEvent.click(screen.getByTitle('Products in cart quantity'));
+    fireEvent.click(screen.getByRole('button', { name: 'Move to wishlist' }));
+
+    expect(
+      screen.queryByText(
+        `${mockCartProducts[1].title} - ${mockCartProducts[1].selectedSize}`
+      )
+    ).not.toBeInTheDocument();
+
+    openWishlist();
+    expect(
+      screen.getByLabelText(`Size of ${mockCartProducts[1].title}`)
+    ).toHaveValue(mockCartProducts[1].selectedSize);
+  });
+
+  test('should remove a product from the wishlist', () => {
+    saveWishlist([mockProducts[2]]);
+    setup();
+    openWishlist();
+
+    fireEvent.click(screen.getByTitle('remove product from wishlist'));
+
+    expect(screen.getByText(/Save products with the ♥/)).toBeInTheDocument();
+  });
+});
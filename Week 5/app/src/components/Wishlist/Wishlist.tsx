@@ -0,0 +1,56 @@
+import { useWishlist } from 'contexts/wishlist-context';
+import { IWishlistProduct } from 'models';
+import WishlistProduct from './WishlistProduct';
+
+import * as S from './style';
+
+const Wishlist = () => {
+  const { products, isOpen, openWishlist, closeWishlist } = useWishlist();
+
+  const handleToggleWishlist = () =>
+    isOpen ? closeWishlist() : openWishlist();
+
+  return (
+    <S.Container isOpen={isOpen}>
+      <S.ToggleButton
+        onClick={handleToggleWishlist}
+        title={isOpen ? 'close wishlist' : 'open wishlist'}
+      >
+        {isOpen ? (
+          <span>X</span>
+        ) : (
+          <S.Heart>
+            ♥
+            <S.Quantity title="Products in wishlist quantity">
+              {products.length}
+            </S.Quantity>
+          </S.Heart>
+        )}
+      </S.ToggleButton>
+
+      {isOpen && (
+        <S.Content>
+          <S.Header>
+            <S.Heart>♥</S.Heart>
+            <S.HeaderTitle>Wishlist</S.HeaderTitle>
+          </S.Header>
+
+          <S.Products>
+            {products.length ? (
+              products.map((product: IWishlistProduct) => (
+                <WishlistProduct product={product} key={product.id} />
+              ))
+            ) : (
+              <S.Empty>
+                Save products with the ♥ on their card <br />
+                to find them here later
+              </S.Empty>
+            )}
+          </S.Products>
+        </S.Content>
+      )}
+    </S.Container>
+  );
+};
+
+export default Wishlist;
@@ -0,0 +1,69 @@
+import { ChangeEvent } from 'react';
+
+import { IWishlistProduct } from 'models';
+import { money } from 'utils/money';
+
+import { useWishlist } from 'contexts/wishlist-context';
+import { useCurrency } from 'contexts/currency-context';
+
+import * as S from './style';
+
+interface IProps {
+  product: IWishlistProduct;
+}
+const WishlistProduct = ({ product }: IProps) => {
+  const { removeFromWishlist, changeWishlistSize, getSize, moveToCart } =
+    useWishlist();
+  const { formatPrice } = useCurrency();
+  const { sku, title, price, style, currencyId, availableSizes } = product;
+  const selectedSize = getSize(product);
+
+  const handleChangeSize = (event: ChangeEvent<HTMLSelectElement>) =>
+    changeWishlistSize(product, event.target.value);
+
+  return (
+    <S.Container>
+      <S.DeleteButton
+        onClick={() => removeFromWishlist(product)}
+        title="remove product from wishlist"
+      />
+      <S.Image
+        src={require(`static/products/${sku}-1-cart.webp`)}
+        alt={title}
+      />
+      <S.Details>
+        <S.Title>{title}</S.Title>
+        <S.Desc>
+          <S.SizeSelect
+            value={selectedSize || ''}
+            onChange={handleChangeSize}
+            aria-label={`Size of ${title}`}
+          >
+            {!selectedSize && (
+              <option value="" disabled>
+                Size
+              </option>
+            )}
+            {availableSizes.map((size) => (
+              <option value={size} key={size}>
+                {size}
+              </option>
+            ))}
+          </S.SizeSelect>
+          {style && ` | ${style}`}
+        </S.Desc>
+        <S.MoveButton
+          onClick={() => moveToCart(product)}
+          disabled={!selectedSize}
+        >
+          {selectedSize ? 'Move to cart' : 'Pick a size to move to cart'}
+        </S.MoveButton>
+      </S.Details>
+      <S.Price>
+        <p>{formatPrice(money(price, currencyId))}</p>
+      </S.Price>
+    </S.Container>
+  );
+};
+
+export default WishlistProduct;
@@ -0,0 +1,31 @@
+import styled from 'styled-components/macro';
+
+export {
+  Container,
+  DeleteButton,
+  Desc,
+  Details,
+  Image,
+  Price,
+  SizeSelect,
+  Title,
+} from 'components/Cart/CartProducts/CartProduct/style';
+
+export const MoveButton = styled.button`
+  margin-top: 5px;
+  padding: 5px 8px;
+  border: 0;
+  color: #ececec;
+  font-size: 0.8em;
+  background-color: #000;
+  cursor: pointer;
+
+  &:disabled {
+    opacity: 0.3;
+    cursor: default;
+  }
+
+  &:focus-visible {
+    outline: 3px solid ${({ theme }) => theme.colors.secondary};
+  }
+`;
@@ -0,0 +1,38 @@
+import styled from 'styled-components/macro';
+
+import { CartButton, Container as CartContainer } from 'components/Cart/style';
+
+export {
+  CartButton as ToggleButton,
+  CartContent as Content,
+  CartContentHeader as Header,
+  CartQuantity as Quantity,
+  HeaderTitle,
+} from 'components/Cart/style';
+
+/* The cart drawer, with its toggle button sitting under the cart's */
+export const Container = styled(CartContainer)`
+  ${CartButton} {
+    top: 55px;
+  }
+`;
+
+export const Heart = styled.span`
+  position: relative;
+  display: inline-block;
+  width: 50px;
+  height: 50px;
+  font-size: 22px;
+  line-height: 50px;
+  color: ${({ theme }) => theme.colors.secondary};
+`;
+
+export const Products = styled.div`
+  padding-bottom: 40px;
+`;
+
+export const Empty = styled.p`
+  color: #ececec;
+  text-align: center;
+  line-height: 40px;
+`;
@@ -1,49 +1,225 @@
-import { createContext, useContext, FC, useState } from 'react';
-import { ICartProduct, ICartTotal } from 'models';
+import {
+  createContext,
+  useContext,
+  FC,
+  ReactNode,
+  useEffect,
+  useRef,
+  useState,
+} from 'react';
+import { ICartProduct, IProduct, ICartTotal } from 'models';
+import {
+  loadCart,
+  loadCouponCodes,
+  loadSavedProducts,
+  reconcileCart,
+  saveCart,
+} from 'services/cart-storage';
+import {
+  createCartSync,
+  createSyncOrigin,
+  isNewerSnapshot,
+  ICartSnapshot,
+  ICartSync,
+} from 'services/cart-sync';
+import { createStore, IStore, shallowEqual } from 'services/store';
+import getCartTotal from 'utils/getCartTotal';
+import useCatalogCheck from 'contexts/useCatalogCheck';
+import useStoreSelector from 'contexts/useStoreSelector';
+
+import { createCartActions, ICartActions } from './cartActions';
+import {
+  cartReducer,
+  createCartState,
+  CartReducerAction,
+  ICartHistoryEntry,
+  ICartState,
+} from './cartReducer';
 
 export interface ICartContext {
   isOpen: boolean;
-  setIsOpen(state: boolean): void;
   products: ICartProduct[];
-  setProducts(products: ICartProduct[]): void;
+  savedProducts: ICartProduct[];
   total: ICartTotal;
-  setTotal(products: any): void;
+  past: ICartHistoryEntry[];
+  future: ICartHistoryEntry[];
+  couponCodes: string[];
+  installmentCount: number;
+  lastAction?: CartReducerAction;
 }
 
-const CartContext = createContext<ICartContext | undefined>(undefined);
-const useCartContext = (): ICartContext => {
-  const context = useContext(CartContext);
+// The cart and the actions that change it travel separately: the actions
+// never change, and the cart lives in a store read through selectors, so
+// each component re-renders only for the part of the cart it shows.
+const CartStateContext = createContext<IStore<ICartContext> | undefined>(
+  undefined
+);
+const CartActionsContext = createContext<ICartActions | undefined>(undefined);
+
+const useCartStore = (): IStore<ICartContext> => {
+  const store = useContext(CartStateContext);
 
-  if (!context) {
-    throw new Error('useCartContext must be used within a CartProvider');
+  if (!store) {
+    throw new Error('useCartState must be used within a CartProvider');
   }
 
-  return context;
+  return store;
 };
 
-const totalInitialValues = {
-  productQuantity: 0,
-  installments: 0,
-  totalPrice: 0,
-  currencyId: 'USD',
-  currencyFormat: '$',
+/* The part of the cart `selector` picks, e.g. ({ total }) => total */
+const useCartState = <S,>(
+  selector: (cart: ICartContext) => S,
+  isEqual?: (a: S, b: S) => boolean
+): S => useStoreSelector(useCartStore(), selector, isEqual);
+
+const useCartActions = (): ICartActions => {
+  const actions = useContext(CartActionsContext);
+
+  if (!actions) {
+    throw new Error('useCartActions must be used within a CartProvider');
+  }
+
+  return actions;
+};
+
+const createCartContext = (state: ICartState): ICartContext => ({
+  ...state,
+  isOpen: false,
+  total: getCartTotal(state.products, state.couponCodes),
+});
+
+/* Runs `action` through the cart reducer and works out the new total */
+const reduceCartContext = (
+  cart: ICartContext,
+  action: CartReducerAction
+): ICartContext => {
+  const state = cartReducer(cart, action);
+
+  if (state === cart) {
+    return cart;
+  }
+
+  const { products, couponCodes } = state;
+  const total =
+    products === cart.products && couponCodes === cart.couponCodes
+      ? cart.total
+      : getCartTotal(products, couponCodes);
+
+  return { ...state, isOpen: cart.isOpen, total };
 };
 
-const CartProvider: FC = (props) => {
-  const [isOpen, setIsOpen] = useState(false);
-  const [products, setProducts] = useState<ICartProduct[]>([]);
-  const [total, setTotal] = useState<ICartTotal>(totalInitialValues);
+const selectSyncedCart = ({
+  products,
+  savedProducts,
+  couponCodes,
+  lastAction,
+}: ICartContext) => ({ products, savedProducts, couponCodes, lastAction });
 
-  const CartContextValue: ICartContext = {
-    isOpen,
-    setIsOpen,
+interface IProps {
+  children?: ReactNode;
+}
+
+const CartProvider: FC<IProps> = (props) => {
+  const [store] = useState(() =>
+    createStore(
+      createCartContext(
+        createCartState(loadCart(), loadCouponCodes(), loadSavedProducts())
+      )
+    )
+  );
+  const [dispatch] = useState(
+    () => (action: CartReducerAction) =>
+      store.setState(reduceCartContext(store.getState(), action))
+  );
+  const [actions] = useState(() =>
+    createCartActions(
+      dispatch,
+      (isOpen: boolean) => store.setState({ ...store.getState(), isOpen }),
+      store.getState
+    )
+  );
+  const { products, savedProducts, couponCodes, lastAction } = useStoreSelector(
+    store,
+    selectSyncedCart,
+    shallowEqual
+  );
+
+  const [origin] = useState(createSyncOrigin);
+  const lastSnapshotRef = useRef<ICartSnapshot>({
     products,
-    setProducts,
-    total,
-    setTotal,
-  };
+    updatedAt: 0,
+    origin,
+  });
+  const syncRef = useRef<ICartSync>();
+
+  useEffect(() => {
+    const sync = createCartSync((snapshot: ICartSnapshot) => {
+      if (!isNewerSnapshot(snapshot, lastSnapshotRef.current)) {
+        return;
+      }
+
+      lastSnapshotRef.current = snapshot;
+      dispatch({
+        type: 'replace',
+        products: snapshot.products,
+        savedProducts: snapshot.savedProducts,
+        couponCodes: snapshot.couponCodes,
+      });
+    });
+
+    syncRef.current = sync;
+
+    return () => {
+      sync.close();
+      syncRef.current = undefined;
+    };
+  }, [dispatch]);
+
+  useEffect(() => {
+    saveCart(products, savedProducts, couponCodes);
+
+    // Restored and synced carts are not broadcast again, and installment
+    // plans stay in the tab they were picked in; every other action changes
+    // the products or coupons, and so the total every tab shows.
+    if (
+      !lastAction ||
+      lastAction.type === 'replace' ||
+      lastAction.type === 'selectInstallments'
+    ) {
+      return;
+    }
+
+    const snapshot: ICartSnapshot = {
+      products,
+      savedProducts,
+      couponCodes,
+      updatedAt: Math.max(Date.now(), lastSnapshotRef.current.updatedAt + 1),
+      origin,
+    };
+
+    lastSnapshotRef.current = snapshot;
+    syncRef.current?.publish(snapshot);
+  }, [products, savedProducts, couponCodes, lastAction, origin]);
+
+  useCatalogCheck(
+    !!products.length || !!savedProducts.length,
+    (catalog: IProduct[]) => {
+      // The cart may have changed while the catalog was loading.
+      const { products, savedProducts } = store.getState();
+
+      dispatch({
+        type: 'replace',
+        products: reconcileCart(products, catalog),
+        savedProducts: reconcileCart(savedProducts, catalog),
+      });
+    }
+  );
 
-  return <CartContext.Provider value={CartContextValue} {...props} />;
+  return (
+    <CartActionsContext.Provider value={actions}>
+      <CartStateContext.Provider value={store} {...props} />
+    </CartActionsContext.Provider>
+  );
 };
 
-export { CartProvider, useCartContext };
+export { CartProvider, useCartState, useCartActions };
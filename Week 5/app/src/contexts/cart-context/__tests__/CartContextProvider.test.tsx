@@ -1,5 +1,17 @@
 import { render } from '@testing-library/react';
+import { act, renderHook } from '@testing-library/react-hooks';
+import { ReactNode } from 'react';
 import { CartProvider } from '..';
+import useCart from '../useCart';
+import useCartProducts from '../useCartProducts';
+import { saveCart } from 'services/cart-storage';
+import { CART_SYNC_CHANNEL } from 'services/cart-sync';
+
+import { mockCartProducts } from 'utils/test/mocks';
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <CartProvider>{children}</CartProvider>
+);
 
 describe('[contexts] - cart-context', () => {
   const setup = () => {
@@ -10,4 +22,112 @@ describe('[contexts] - cart-context', () => {
     const view = setup();
     expect(view).toMatchSnapshot();
   });
+
+  test('should restore the saved cart and drop products missing from the catalog', async () => {
+    const missingProduct = { ...mockCartProducts[0], id: 999 };
+    saveCart([mockCartProducts[0], missingProduct]);
+
+    const { result, waitFor } = renderHook(() => useCartProducts(), {
+      wrapper,
+    });
+
+    expect(result.current.products).toHaveLength(2);
+    await waitFor(() => expect(result.current.products).toHaveLength(1));
+    expect(result.current.products[0].id).toBe(mockCartProducts[0].id);
+  });
+
+  test('should restore the applied coupons', async () => {
+    saveCart([mockCartProducts[0]], [], ['SAVE10']);
+
+    const { result, waitFor } = renderHook(() => useCart(), { wrapper });
+
+    expect(result.current.couponCodes).toEqual(['SAVE10']);
+    // Checking the cart against the catalog keeps them.
+    await waitFor(() =>
+      expect(result.current.lastAction?.type).toBe('replace')
+    );
+    expect(result.current.couponCodes).toEqual(['SAVE10']);
+  });
+
+  describe('cross-tab sync', () => {
+    const originalBroadcastChannel = (window as any).BroadcastChannel;
+
+    beforeEach(() => {
+      (window as any).BroadcastChannel = undefined;
+    });
+
+    afterEach(() => {
+      (window as any).BroadcastChannel = originalBroadcastChannel;
+    });
+
+    const receiveFromOtherTab = (snapshot: object) =>
+      act(() => {
+        window.dispatchEvent(
+          new StorageEvent('storage', {
+            key: CART_SYNC_CHANNEL,
+            newValue: JSON.stringify(snapshot),
+          })
+        );
+      });
+
+    test('should broadcast local cart changes', () => {
+      const { result } = renderHook(() => useCartProducts(), { wrapper });
+
+      act(() => result.current.addProduct(mockCartProducts[0]));
+
+      const message = JSON.parse(
+        window.localStorage.getItem(CART_SYNC_CHANNEL) as string
+      );
+      expect(message.products).toEqual([mockCartProducts[0]]);
+    });
+
+    test('should apply newer changes from other tabs and keep the total in sync', () => {
+      const { result } = renderHook(() => useCart(), { wrapper });
+
+      receiveFromOtherTab({
+        products: mockCartProducts,
+        updatedAt: Date.now() + 1000,
+        origin: 'other-tab',
+      });
+
+      expect(result.current.products).toEqual(mockCartProducts);
+      expect(result.current.total.productQuantity).toBe(3);
+    });
+
+    test('should share applied coupons with other tabs', () => {
+      const { result } = renderHook(() => useCart(), { wrapper });
+
+      act(() => result.current.addProduct(mockCartProducts[0]));
+      act(() => {
+        result.current.applyCoupon('SAVE10');
+      });
+
+      const message = JSON.parse(
+        window.localStorage.getItem(CART_SYNC_CHANNEL) as string
+      );
+      expect(message.couponCodes).toEqual(['SAVE10']);
+
+      receiveFromOtherTab({
+        products: mockCartProducts,
+        couponCodes: [],
+        updatedAt: Date.now() + 1000,
+        origin: 'other-tab',
+      });
+
+      expect(result.current.couponCodes).toEqual([]);
+    });
+
+    test('should ignore changes older than the local cart', () => {
+      const { result } = renderHook(() => useCart(), { wrapper });
+
+      act(() => result.current.addProduct(mockCartProducts[0]));
+      receiveFromOtherTab({
+        products: mockCartProducts,
+        updatedAt: 1,
+        origin: 'other-tab',
+      });
+
+      expect(result.current.products).toEqual([mockCartProducts[0]]);
+    });
+  });
 });
@@ -0,0 +1,195 @@
+import {
+  cartReducer,
+  createCartState,
+  CartReducerAction,
+  ICartState,
+  MAX_CART_HISTORY,
+} from '../cartReducer';
+
+import { mockCartProducts } from 'utils/test/mocks';
+
+const [shirt, cactus] = mockCartProducts;
+
+const reduce = (state: ICartState, actions: CartReducerAction[]) =>
+  actions.reduce(cartReducer, state);
+
+describe('[contexts] - cart-context', () => {
+  describe('cartReducer', () => {
+    test('should log every action that changed the cart', () => {
+      const state = reduce(createCartState([]), [
+        { type: 'add', product: shirt },
+        { type: 'increment', product: shirt },
+        { type: 'remove', product: cactus },
+      ]);
+
+      expect(state.past.map(({ action }) => action.type)).toEqual([
+        'add',
+        'increment',
+      ]);
+      expect(state.lastAction).toEqual({ type: 'increment', product: shirt });
+    });
+
+    test('should undo and redo actions', () => {
+      const state = reduce(createCartState([]), [
+        { type: 'add', product: shirt },
+        { type: 'add', product: cactus },
+        { type: 'remove', product: shirt },
+      ]);
+      expect(state.products).toEqual([cactus]);
+
+      const undone = reduce(state, [{ type: 'undo' }, { type: 'undo' }]);
+      expect(undone.products).toEqual([shirt]);
+      expect(undone.future).toHaveLength(2);
+
+      const redone = cartReducer(undone, { type: 'redo' });
+      expect(redone.products).toEqual([shirt, cactus]);
+      expect(redone.past).toHaveLength(2);
+      expect(redone.future).toHaveLength(1);
+    });
+
+    test('should drop the redo stack after a new action', () => {
+      const state = reduce(createCartState([]), [
+        { type: 'add', product: shirt },
+        { type: 'undo' },
+        { type: 'add', product: cactus },
+      ]);
+
+      expect(state.future).toEqual([]);
+      expect(cartReducer(state, { type: 'redo' })).toBe(state);
+    });
+
+    test('should ignore undo when there is no history', () => {
+      const state = createCartState([shirt]);
+
+      expect(cartReducer(state, { type: 'undo' })).toBe(state);
+    });
+
+    test('should empty the cart on clear', () => {
+      const state = reduce(createCartState([shirt, cactus]), [
+        { type: 'clear' },
+      ]);
+
+      expect(state.products).toEqual([]);
+      expect(cartReducer(state, { type: 'undo' }).products).toEqual([
+        shirt,
+        cactus,
+      ]);
+    });
+
+    test('should empty the cart for good after an order', () => {
+      const state = reduce(createCartState([], [], [cactus]), [
+        { type: 'add', product: shirt },
+        { type: 'applyCoupon', code: 'SAVE10' },
+        { type: 'selectInstallments', count: 3 },
+        { type: 'reset' },
+      ]);
+
+      expect(state.products).toEqual([]);
+      expect(state.savedProducts).toEqual([cactus]);
+      expect(state.couponCodes).toEqual([]);
+      expect(state.installmentCount).toBe(1);
+      expect(cartReducer(state, { type: 'undo' })).toBe(state);
+    });
+
+    test('should reset the history when the cart is replaced', () => {
+      const state = reduce(createCartState([]), [
+        { type: 'add', product: shirt },
+        { type: 'replace', products: [cactus] },
+      ]);
+
+      expect(state.products).toEqual([cactus]);
+      expect(state.past).toEqual([]);
+    });
+
+    test('should move a line to the saved list and back', () => {
+      const twoShirts = { ...shirt, quantity: 2 };
+      const saved = reduce(createCartState([twoShirts, cactus]), [
+        { type: 'saveForLater', product: shirt },
+      ]);
+
+      expect(saved.products).toEqual([cactus]);
+      expect(saved.savedProducts).toEqual([twoShirts]);
+
+      const restored = cartReducer(saved, {
+        type: 'moveToCart',
+        product: shirt,
+      });
+      expect(restored.products).toEqual([cactus, twoShirts]);
+      expect(restored.savedProducts).toEqual([]);
+    });
+
+    test('should merge saved lines with the same product and size', () => {
+      const state = reduce(createCartState([shirt], [], [shirt]), [
+        { type: 'saveForLater', product: shirt },
+      ]);
+
+      expect(state.savedProducts).toEqual([{ ...shirt, quantity: 2 }]);
+    });
+
+    test('should ignore lines that are not in the list they move from', () => {
+      const state = createCartState([shirt], [], [cactus]);
+
+      expect(
+        cartReducer(state, { type: 'saveForLater', product: cactus })
+      ).toBe(state);
+      expect(cartReducer(state, { type: 'moveToCart', product: shirt })).toBe(
+        state
+      );
+    });
+
+    test('should undo saving a line for later and keep saved lines on clear', () => {
+      const state = reduce(createCartState([shirt, cactus]), [
+        { type: 'saveForLater', product: shirt },
+        { type: 'clear' },
+      ]);
+      expect(state.products).toEqual([]);
+      expect(state.savedProducts).toEqual([shirt]);
+
+      const undone = reduce(state, [{ type: 'undo' }, { type: 'undo' }]);
+      expect(undone.products).toEqual([shirt, cactus]);
+      expect(undone.savedProducts).toEqual([]);
+    });
+
+    test('should cap the history length', () => {
+      const actions: CartReducerAction[] = Array.from(
+        { length: MAX_CART_HISTORY + 10 },
+        () => ({ type: 'increment', product: shirt })
+      );
+      const state = reduce(createCartState([shirt]), actions);
+
+      expect(state.past).toHaveLength(MAX_CART_HISTORY);
+    });
+
+    test('should apply and remove coupons outside the undo history', () => {
+      const state = reduce(createCartState([shirt]), [
+        { type: 'applyCoupon', code: 'SAVE10' },
+        { type: 'applyCoupon', code: 'SAVE10' },
+        { type: 'applyCoupon', code: 'WELCOME5' },
+        { type: 'removeCoupon', code: 'SAVE10' },
+      ]);
+
+      expect(state.couponCodes).toEqual(['WELCOME5']);
+      expect(state.past).toEqual([]);
+    });
+
+    test('should remember the selected installment plan', () => {
+      const state = reduce(createCartState([shirt]), [
+        { type: 'selectInstallments', count: 3 },
+        { type: 'add', product: cactus },
+        { type: 'replace', products: [cactus] },
+      ]);
+      expect(state.installmentCount).toBe(3);
+
+      expect(cartReducer(state, { type: 'clear' }).installmentCount).toBe(1);
+    });
+
+    test('should keep coupons when the cart is replaced and drop them on clear', () => {
+      const state = reduce(createCartState([shirt], ['SAVE10']), [
+        { type: 'replace', products: [cactus] },
+      ]);
+      expect(state.couponCodes).toEqual(['SAVE10']);
+
+      expect(cartReducer(state, { type: 'clear' }).couponCodes).toEqual([]);
+    });
+  });
+});
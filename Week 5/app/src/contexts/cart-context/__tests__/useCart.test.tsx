@@ -1,5 +1,5 @@
-import { renderHook } from '@testing-library/react-hooks';
-import React, { ReactNode } from 'react';
+import { act, renderHook } from '@testing-library/react-hooks';
+import { ReactNode } from 'react';
 import { CartProvider } from '..';
 import useCart from '../useCart';
 
@@ -9,47 +9,39 @@ const wrapper = ({ children }: { children: ReactNode }) => (
 
 describe('[contexts] - cart-context', () => {
   describe('useCart', () => {
-    let isOpen: boolean;
-    const originalUseContext = React.useContext;
-
-    const setupMockUseContext = (initialIsOpen: boolean = false) => {
-      isOpen = initialIsOpen;
-      const mockIsOpen = jest.fn().mockImplementation((updatedIsOpen) => {
-        isOpen = updatedIsOpen;
-        return isOpen;
-      });
-      const mockUseContext = jest.fn().mockImplementation(() => ({
-        isOPen: initialIsOpen,
-        setIsOpen: mockIsOpen,
-      }));
-      React.useContext = mockUseContext;
-    };
-
-    const resetMocks = () => {
-      React.useContext = originalUseContext;
-    };
-
     describe('openCart', () => {
-      afterEach(() => {
-        resetMocks();
-      });
-
       test('should open cart', () => {
-        setupMockUseContext();
         const { result } = renderHook(() => useCart(), { wrapper });
 
-        expect(isOpen).toBe(false);
-        result.current.openCart();
-        expect(isOpen).toBe(true);
+        expect(result.current.isOpen).toBe(false);
+        act(() => {
+          result.current.openCart();
+        });
+        expect(result.current.isOpen).toBe(true);
       });
 
       test('should close cart', () => {
-        setupMockUseContext(true);
         const { result } = renderHook(() => useCart(), { wrapper });
 
-        expect(isOpen).toBe(true);
-        result.current.closeCart();
-        expect(isOpen).toBe(false);
+        act(() => {
+          result.current.openCart();
+        });
+        act(() => {
+          result.current.closeCart();
+        });
+        expect(result.current.isOpen).toBe(false);
+      });
+
+      test('should keep the same actions across cart changes', () => {
+        const { result } = renderHook(() => useCart(), { wrapper });
+        const { openCart, addProduct } = result.current;
+
+        act(() => {
+          result.current.openCart();
+        });
+
+        expect(result.current.openCart).toBe(openCart);
+        expect(result.current.addProduct).toBe(addProduct);
       });
     });
   });
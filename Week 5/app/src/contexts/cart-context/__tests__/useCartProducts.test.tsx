@@ -1,9 +1,7 @@
-import { renderHook } from '@testing-library/react-hooks';
-import { ICartProduct } from 'models';
-import React, { ReactNode } from 'react';
+import { act, renderHook } from '@testing-library/react-hooks';
+import { ReactNode } from 'react';
 import { CartProvider } from '..';
 import useCartProducts from '../useCartProducts';
-import * as useCartTotalModule from '../useCartTotal';
 
 import { mockCartProducts } from 'utils/test/mocks';
 
@@ -12,144 +10,125 @@ const wrapper = ({ children }: { children: ReactNode }) => (
 );
 
 describe('[contexts] - cart-context', () => {
-  describe('useProducts', () => {
-    let products: ICartProduct[];
-    const originalUseContext = React.useContext;
-
-    const setupMockUseContext = (initialProducts: ICartProduct[] = []) => {
-      products = initialProducts;
-      const mockSetProducts = jest
-        .fn()
-        .mockImplementation((updatedProducts) => {
-          products = [...updatedProducts];
-          return products;
-        });
-      const mockUseContext = jest.fn().mockImplementation(() => ({
-        products: initialProducts,
-        setProducts: mockSetProducts,
-      }));
-      React.useContext = mockUseContext;
-    };
-
-    const resetMocks = () => {
-      React.useContext = originalUseContext;
-    };
-
-    describe('addProducts', () => {
-      afterEach(() => {
-        resetMocks();
-      });
-
-      test('should addProduct and update cartTotal', () => {
-        setupMockUseContext();
-
-        const mockUpdateCartTotal = jest.fn();
-        useCartTotalModule.default = jest.fn().mockImplementation(() => ({
-          total: {},
-          updateCartTotal: mockUpdateCartTotal,
-        }));
+  describe('useCartProducts', () => {
+    const setup = () => renderHook(() => useCartProducts(), { wrapper });
 
+    describe('addProduct', () => {
+      test('should add product to cart', () => {
         const mockCartProduct = mockCartProducts[0];
-        const { result } = renderHook(() => useCartProducts(), { wrapper });
+        const { result } = setup();
 
-        expect(products).toHaveLength(0);
-        result.current.addProduct(mockCartProduct);
-        expect(products).toHaveLength(1);
-        expect(products).toEqual([mockCartProduct]);
-        expect(mockUpdateCartTotal).toHaveBeenNthCalledWith(1, products);
+        expect(result.current.products).toHaveLength(0);
+        act(() => result.current.addProduct(mockCartProduct));
+        expect(result.current.products).toEqual([mockCartProduct]);
       });
 
-      test('should update product quatity in cart when product is already in cart', () => {
+      test('should update product quantity in cart when product is already in cart', () => {
         const mockCartProduct = mockCartProducts[0];
-        setupMockUseContext([mockCartProduct]);
+        const { result } = setup();
 
-        const mockUpdateCartTotal = jest.fn();
-        useCartTotalModule.default = jest.fn().mockImplementation(() => ({
-          total: {},
-          updateCartTotal: mockUpdateCartTotal,
-        }));
-
-        const { result } = renderHook(() => useCartProducts(), { wrapper });
-
-        result.current.addProduct(mockCartProduct);
-        expect(products[0].quantity).toBe(2);
+        act(() => result.current.addProduct(mockCartProduct));
+        act(() => result.current.addProduct(mockCartProduct));
+        expect(result.current.products).toHaveLength(1);
+        expect(result.current.products[0].quantity).toBe(2);
       });
-    });
 
-    describe('removeProducts', () => {
-      afterEach(() => {
-        resetMocks();
+      test('should add the same product in another size as a separate line', () => {
+        const mockCartProduct = mockCartProducts[0];
+        const { result } = setup();
+
+        act(() => result.current.addProduct(mockCartProduct));
+        act(() =>
+          result.current.addProduct({ ...mockCartProduct, selectedSize: 'XL' })
+        );
+        expect(
+          result.current.products.map((product) => product.selectedSize)
+        ).toEqual(['L', 'XL']);
       });
+    });
 
+    describe('removeProduct', () => {
       test('should remove product from cart', () => {
         const mockCartProduct = mockCartProducts[0];
-        setupMockUseContext([mockCartProduct]);
-
-        const mockUpdateCartTotal = jest.fn();
-        useCartTotalModule.default = jest.fn().mockImplementation(() => ({
-          total: {},
-          updateCartTotal: mockUpdateCartTotal,
-        }));
+        const { result } = setup();
 
-        const { result } = renderHook(() => useCartProducts(), { wrapper });
-
-        expect(products).toHaveLength(1);
-        result.current.removeProduct(mockCartProduct);
-        expect(products).toHaveLength(0);
-        expect(mockUpdateCartTotal).toHaveBeenNthCalledWith(1, products);
+        act(() => result.current.addProduct(mockCartProduct));
+        act(() => result.current.removeProduct(mockCartProduct));
+        expect(result.current.products).toHaveLength(0);
       });
 
-      test('should not remove product from cart when product is new', () => {
-        setupMockUseContext([mockCartProducts[0]]);
-
-        const mockUpdateCartTotal = jest.fn();
-        useCartTotalModule.default = jest.fn().mockImplementation(() => ({
-          total: {},
-          updateCartTotal: mockUpdateCartTotal,
-        }));
+      test('should not remove product from cart when product is not in cart', () => {
+        const { result } = setup();
 
-        const { result } = renderHook(() => useCartProducts(), { wrapper });
-
-        expect(products).toHaveLength(1);
-        result.current.removeProduct(mockCartProducts[1]);
-        expect(products).toHaveLength(1);
-        expect(mockUpdateCartTotal).toHaveBeenNthCalledWith(1, products);
+        act(() => result.current.addProduct(mockCartProducts[0]));
+        act(() => result.current.removeProduct(mockCartProducts[1]));
+        expect(result.current.products).toHaveLength(1);
       });
+    });
 
+    describe('quantity', () => {
       test('should increase product quantity', () => {
         const mockCartProduct = mockCartProducts[0];
-        setupMockUseContext([mockCartProduct]);
-
-        const mockUpdateCartTotal = jest.fn();
-        useCartTotalModule.default = jest.fn().mockImplementation(() => ({
-          total: {},
-          updateCartTotal: mockUpdateCartTotal,
-        }));
+        const { result } = setup();
 
-        const { result } = renderHook(() => useCartProducts(), { wrapper });
+        act(() => result.current.addProduct(mockCartProduct));
+        act(() => result.current.increaseProductQuantity(mockCartProduct));
+        expect(result.current.products[0].quantity).toBe(2);
+      });
 
-        expect(products[0].quantity).toBe(1);
-        result.current.increaseProductQuantity(mockCartProduct);
-        expect(products[0].quantity).toBe(2);
-        expect(mockUpdateCartTotal).toHaveBeenNthCalledWith(1, products);
+      test('should decrease product quantity but never below one', () => {
+        const mockCartProduct = mockCartProducts[0];
+        const { result } = setup();
+
+        act(() =>
+          result.current.addProduct({ ...mockCartProduct, quantity: 2 })
+        );
+        act(() => result.current.decreaseProductQuantity(mockCartProduct));
+        expect(result.current.products[0].quantity).toBe(1);
+        act(() => result.current.decreaseProductQuantity(mockCartProduct));
+        expect(result.current.products[0].quantity).toBe(1);
       });
+    });
 
-      test('should decrease product quantity', () => {
+    describe('changeProductSize', () => {
+      test('should change the size of a cart line', () => {
         const mockCartProduct = mockCartProducts[0];
-        setupMockUseContext([mockCartProduct]);
+        const { result } = setup();
 
-        const mockUpdateCartTotal = jest.fn();
-        useCartTotalModule.default = jest.fn().mockImplementation(() => ({
-          total: {},
-          updateCartTotal: mockUpdateCartTotal,
-        }));
+        act(() => result.current.addProduct(mockCartProduct));
+        act(() => result.current.changeProductSize(mockCartProduct, 'XXL'));
+        expect(result.current.products).toEqual([
+          { ...mockCartProduct, selectedSize: 'XXL' },
+        ]);
+      });
+
+      test('should merge into the line that already has the new size', () => {
+        const mockCartProduct = mockCartProducts[0];
+        const { result } = setup();
+
+        act(() => result.current.addProduct(mockCartProduct));
+        act(() =>
+          result.current.addProduct({
+            ...mockCartProduct,
+            selectedSize: 'XL',
+            quantity: 2,
+          })
+        );
+        act(() => result.current.changeProductSize(mockCartProduct, 'XL'));
+        expect(result.current.products).toEqual([
+          { ...mockCartProduct, selectedSize: 'XL', quantity: 3 },
+        ]);
+      });
+    });
 
-        const { result } = renderHook(() => useCartProducts(), { wrapper });
+    describe('clearCart', () => {
+      test('should remove every product', () => {
+        const { result } = setup();
 
-        expect(products[0].quantity).toBe(1);
-        result.current.decreaseProductQuantity(mockCartProduct);
-        expect(products[0].quantity).toBe(0);
-        expect(mockUpdateCartTotal).toHaveBeenNthCalledWith(1, products);
+        act(() => result.current.addProduct(mockCartProducts[0]));
+        act(() => result.current.addProduct(mockCartProducts[1]));
+        act(() => result.current.clearCart());
+        expect(result.current.products).toEqual([]);
       });
     });
   });
@@ -1,10 +1,13 @@
-import { renderHook } from '@testing-library/react-hooks';
-import { ICartTotal } from 'models';
-import React, { ReactNode } from 'react';
+import { act, renderHook } from '@testing-library/react-hooks';
+import { ReactNode } from 'react';
 import { CartProvider } from '..';
+import useCartProducts from '../useCartProducts';
+import useCartCoupons from '../useCartCoupons';
 import useCartTotal from '../useCartTotal';
 
-import { mockCartTotal, mockCartProducts } from 'utils/test/mocks';
+import { mockCartProducts } from 'utils/test/mocks';
+
+const usd = (amount: number) => ({ amount, currencyId: 'USD' });
 
 const wrapper = ({ children }: { children: ReactNode }) => (
   <CartProvider>{children}</CartProvider>
@@ -12,53 +15,129 @@ const wrapper = ({ children }: { children: ReactNode }) => (
 
 describe('[contexts] - cart-context', () => {
   describe('useCartTotal', () => {
-    let total: ICartTotal | {};
-    const originalUseContext = React.useContext;
-
-    const setupMockUseContext = (initialTotal: ICartTotal | {} = {}) => {
-      total = initialTotal;
-      const mockSetTotal = jest.fn().mockImplementation((updatedTotal) => {
-        total = updatedTotal;
-        return total;
+    const setup = () =>
+      renderHook(
+        () => ({
+          ...useCartProducts(),
+          ...useCartCoupons(),
+          ...useCartTotal(),
+        }),
+        { wrapper }
+      );
+
+    test('should start with an empty total', () => {
+      const { result } = setup();
+
+      expect(result.current.total).toEqual({
+        productQuantity: 0,
+        installments: 0,
+        subtotalPrice: usd(0),
+        discounts: [],
+        discountTotal: usd(0),
+        totalPrice: usd(0),
+        hasFreeShipping: false,
+        shipping: {
+          method: { id: 'standard', label: 'Standard' },
+          region: 'north-america',
+          price: usd(0),
+          deliveryDays: [3, 5],
+        },
+        grandTotal: usd(0),
+      });
+    });
+
+    test('should derive the total from the cart products', () => {
+      const { result } = setup();
+
+      act(() => {
+        mockCartProducts.forEach((product) =>
+          result.current.addProduct(product)
+        );
+      });
+
+      expect(result.current.total).toEqual({
+        productQuantity: 3,
+        installments: 3,
+        subtotalPrice: usd(5005),
+        discounts: [],
+        discountTotal: usd(0),
+        totalPrice: usd(5005),
+        hasFreeShipping: false,
+        shipping: {
+          method: { id: 'standard', label: 'Standard' },
+          region: 'north-america',
+          price: usd(590),
+          deliveryDays: [3, 5],
+        },
+        grandTotal: usd(5595),
+      });
+
+      act(() => result.current.removeProduct(mockCartProducts[2]));
+
+      expect(result.current.total.productQuantity).toBe(2);
+      expect(result.current.total.totalPrice).toEqual(usd(2415));
+    });
+
+    test('should leave lines saved for later out of the total', () => {
+      const { result } = setup();
+
+      act(() => {
+        mockCartProducts.forEach((product) =>
+          result.current.addProduct(product)
+        );
+      });
+      act(() => result.current.saveProductForLater(mockCartProducts[2]));
+
+      expect(result.current.savedProducts).toEqual([mockCartProducts[2]]);
+      expect(result.current.total.productQuantity).toBe(2);
+      expect(result.current.total.totalPrice).toEqual(usd(2415));
+
+      act(() => result.current.moveSavedProductToCart(mockCartProducts[2]));
+
+      expect(result.current.total.totalPrice).toEqual(usd(5005));
+    });
+
+    test('should keep totals exact in minor units', () => {
+      const { result } = setup();
+
+      act(() => result.current.addProduct(mockCartProducts[0]));
+      act(() => result.current.increaseProductQuantity(mockCartProducts[0]));
+      act(() => result.current.increaseProductQuantity(mockCartProducts[0]));
+
+      // 10.9 * 3 is 32.699999999999996 in floating point
+      expect(result.current.total.totalPrice).toEqual(usd(3270));
+    });
+
+    test('should apply coupon discounts to the total', () => {
+      const { result } = setup();
+
+      act(() => {
+        mockCartProducts.forEach((product) =>
+          result.current.addProduct(product)
+        );
       });
-      const mockUseContext = jest.fn().mockImplementation(() => ({
-        total: initialTotal,
-        setTotal: mockSetTotal,
-      }));
-      React.useContext = mockUseContext;
-    };
-
-    const resetMocks = () => {
-      React.useContext = originalUseContext;
-    };
-
-    describe('updateCartTotal', () => {
-      afterEach(() => {
-        resetMocks();
+      act(() => {
+        result.current.applyCoupon('save10');
       });
 
-      test('should update cart total', () => {
-        setupMockUseContext(mockCartTotal);
-        const { result } = renderHook(() => useCartTotal(), { wrapper });
-
-        expect(total).toEqual({
-          productQuantity: 1,
-          installments: 1,
-          totalPrice: 10.9,
-          currencyId: 'USD',
-          currencyFormat: '$',
-        });
-
-        result.current.updateCartTotal(mockCartProducts);
-
-        expect(total).toEqual({
-          productQuantity: 3,
-          installments: 12,
-          totalPrice: 50.05,
-          currencyId: 'USD',
-          currencyFormat: '$',
-        });
+      expect(result.current.couponCodes).toEqual(['SAVE10']);
+      expect(result.current.total.discountTotal).toEqual(usd(501));
+      expect(result.current.total.totalPrice).toEqual(usd(4504));
+
+      act(() => result.current.removeCoupon('SAVE10'));
+
+      expect(result.current.total.totalPrice).toEqual(usd(5005));
+    });
+
+    test('should check a coupon against products added in the same handler', () => {
+      const { result } = setup();
+
+      act(() => {
+        result.current.addProduct(mockCartProducts[0]);
+        result.current.applyCoupon('save10');
       });
+
+      expect(result.current.couponCodes).toEqual(['SAVE10']);
     });
   });
 });
@@ -0,0 +1,71 @@
+import { ICartProduct } from 'models';
+import {
+  CouponValidation,
+  normalizeCouponCode,
+  validateCoupon,
+} from 'services/promotions';
+
+import { CartReducerAction } from './cartReducer';
+
+export interface ICartActions {
+  openCart(): void;
+  closeCart(): void;
+  addProduct(product: ICartProduct): void;
+  removeProduct(product: ICartProduct): void;
+  increaseProductQuantity(product: ICartProduct): void;
+  decreaseProductQuantity(product: ICartProduct): void;
+  changeProductSize(product: ICartProduct, selectedSize: string): void;
+  clearCart(): void;
+  /* Empties the cart after an order; unlike clearCart it can't be undone */
+  resetCart(): void;
+  saveProductForLater(product: ICartProduct): void;
+  moveSavedProductToCart(product: ICartProduct): void;
+  undo(): void;
+  redo(): void;
+  applyCoupon(code: string): CouponValidation;
+  removeCoupon(code: string): void;
+  selectInstallments(count: number): void;
+}
+
+/*
+ * Everything that changes the cart. Built once per provider, so components
+ * that only change the cart never re-render when it does.
+ */
+export const createCartActions = (
+  dispatch: (action: CartReducerAction) => void,
+  setIsOpen: (isOpen: boolean) => void,
+  getCart: () => { products: ICartProduct[]; couponCodes: string[] }
+): ICartActions => ({
+  openCart: () => setIsOpen(true),
+  closeCart: () => setIsOpen(false),
+  addProduct: (product: ICartProduct) => dispatch({ type: 'add', product }),
+  removeProduct: (product: ICartProduct) =>
+    dispatch({ type: 'remove', product }),
+  increaseProductQuantity: (product: ICartProduct) =>
+    dispatch({ type: 'increment', product }),
+  decreaseProductQuantity: (product: ICartProduct) =>
+    dispatch({ type: 'decrement', product }),
+  changeProductSize: (product: ICartProduct, selectedSize: string) =>
+    dispatch({ type: 'changeSize', product, selectedSize }),
+  clearCart: () => dispatch({ type: 'clear' }),
+  resetCart: () => dispatch({ type: 'reset' }),
+  saveProductForLater: (product: ICartProduct) =>
+    dispatch({ type: 'saveForLater', product }),
+  moveSavedProductToCart: (product: ICartProduct) =>
+    dispatch({ type: 'moveToCart', product }),
+  undo: () => dispatch({ type: 'undo' }),
+  redo: () => dispatch({ type: 'redo' }),
+  applyCoupon: (code: string): CouponValidation => {
+    const { products, couponCodes } = getCart();
+    const validation = validateCoupon(code, products, couponCodes);
+
+    if (validation.isValid) {
+      dispatch({ type: 'applyCoupon', code: normalizeCouponCode(code) });
+    }
+
+    return validation;
+  },
+  removeCoupon: (code: string) => dispatch({ type: 'removeCoupon', code }),
+  selectInstallments: (count: number) =>
+    dispatch({ type: 'selectInstallments', count }),
+});
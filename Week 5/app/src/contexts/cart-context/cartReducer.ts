@@ -0,0 +1,305 @@
+import { ICartProduct } from 'models';
+import getCartProductKey from 'utils/getCartProductKey';
+
+export type CartAction =
+  | { type: 'add'; product: ICartProduct }
+  | { type: 'remove'; product: ICartProduct }
+  | { type: 'increment'; product: ICartProduct }
+  | { type: 'decrement'; product: ICartProduct }
+  | { type: 'changeSize'; product: ICartProduct; selectedSize: string }
+  | { type: 'clear' }
+  | { type: 'saveForLater'; product: ICartProduct }
+  | { type: 'moveToCart'; product: ICartProduct };
+
+export type CartReducerAction =
+  | CartAction
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'reset' }
+  | {
+      type: 'replace';
+      products: ICartProduct[];
+      savedProducts?: ICartProduct[];
+      couponCodes?: string[];
+    }
+  | { type: 'applyCoupon'; code: string }
+  | { type: 'removeCoupon'; code: string }
+  | { type: 'selectInstallments'; count: number };
+
+export interface ICartHistoryEntry {
+  action: CartAction;
+  /* The products as they were before `action` was applied */
+  products: ICartProduct[];
+  savedProducts: ICartProduct[];
+}
+
+export interface ICartState {
+  products: ICartProduct[];
+  /* Lines set aside with "Save for later"; they don't count towards the total */
+  savedProducts: ICartProduct[];
+  past: ICartHistoryEntry[];
+  future: ICartHistoryEntry[];
+  couponCodes: string[];
+  /* Installment plan the shopper picked, by number of installments */
+  installmentCount: number;
+  lastAction?: CartReducerAction;
+}
+
+export const MAX_CART_HISTORY = 50;
+
+export const createCartState = (
+  products: ICartProduct[],
+  couponCodes: string[] = [],
+  savedProducts: ICartProduct[] = []
+): ICartState => ({
+  products,
+  savedProducts,
+  past: [],
+  future: [],
+  couponCodes,
+  installmentCount: 1,
+});
+
+const isSameCartLine = (a: ICartProduct, b: ICartProduct) =>
+  getCartProductKey(a) === getCartProductKey(b);
+
+const findCartLine = (products: ICartProduct[], target: ICartProduct) =>
+  products.find((product: ICartProduct) => isSameCartLine(product, target));
+
+const updateQuantity = (
+  products: ICartProduct[],
+  target: ICartProduct,
+  quantity: number
+) =>
+  products.map((product: ICartProduct) =>
+    isSameCartLine(product, target)
+      ? { ...product, quantity: product.quantity + quantity }
+      : product
+  );
+
+const changeSize = (
+  products: ICartProduct[],
+  target: ICartProduct,
+  selectedSize: string
+) => {
+  const resizedProduct = { ...target, selectedSize };
+  const hasLineInNewSize = products.some(
+    (product: ICartProduct) =>
+      !isSameCartLine(product, target) &&
+      isSameCartLine(product, resizedProduct)
+  );
+
+  if (hasLineInNewSize) {
+    // The line already exists in that size: merge the quantities into it.
+    return updateQuantity(
+      products.filter(
+        (product: ICartProduct) => !isSameCartLine(product, target)
+      ),
+      resizedProduct,
+      target.quantity
+    );
+  }
+
+  return products.map((product: ICartProduct) =>
+    isSameCartLine(product, target) ? { ...product, selectedSize } : product
+  );
+};
+
+export const applyCartAction = (
+  products: ICartProduct[],
+  action: CartAction
+): ICartProduct[] => {
+  switch (action.type) {
+    case 'add':
+    case 'moveToCart':
+      return products.some((product: ICartProduct) =>
+        isSameCartLine(product, action.product)
+      )
+        ? updateQuantity(products, action.product, action.product.quantity)
+        : [...products, action.product];
+    case 'remove':
+    case 'saveForLater':
+      return products.some((product: ICartProduct) =>
+        isSameCartLine(product, action.product)
+      )
+        ? products.filter(
+            (product: ICartProduct) => !isSameCartLine(product, action.product)
+          )
+        : products;
+    case 'increment':
+      return updateQuantity(products, action.product, +1);
+    case 'decrement':
+      return products.some(
+        (product: ICartProduct) =>
+          isSameCartLine(product, action.product) && product.quantity > 1
+      )
+        ? updateQuantity(products, action.product, -1)
+        : products;
+    case 'changeSize':
+      return changeSize(products, action.product, action.selectedSize);
+    case 'clear':
+      return [];
+  }
+};
+
+const recordAction = (
+  state: ICartState,
+  action: CartAction,
+  products: ICartProduct[],
+  savedProducts: ICartProduct[] = state.savedProducts
+): ICartState => ({
+  ...state,
+  products,
+  savedProducts,
+  past: [
+    ...state.past,
+    { action, products: state.products, savedProducts: state.savedProducts },
+  ].slice(-MAX_CART_HISTORY),
+  future: [],
+  lastAction: action,
+});
+
+export const cartReducer = (
+  state: ICartState,
+  action: CartReducerAction
+): ICartState => {
+  switch (action.type) {
+    case 'undo': {
+      const entry = state.past[state.past.length - 1];
+
+      if (!entry) {
+        return state;
+      }
+
+      return {
+        ...state,
+        products: entry.products,
+        savedProducts: entry.savedProducts,
+        past: state.past.slice(0, -1),
+        future: [
+          {
+            action: entry.action,
+            products: state.products,
+            savedProducts: state.savedProducts,
+          },
+          ...state.future,
+        ],
+        lastAction: action,
+      };
+    }
+    case 'redo': {
+      const [entry, ...future] = state.future;
+
+      if (!entry) {
+        return state;
+      }
+
+      return {
+        ...state,
+        products: entry.products,
+        savedProducts: entry.savedProducts,
+        past: [
+          ...state.past,
+          {
+            action: entry.action,
+            products: state.products,
+            savedProducts: state.savedProducts,
+          },
+        ],
+        future,
+        lastAction: action,
+      };
+    }
+    case 'reset':
+      // The order was placed: the cart starts over, with no history to undo
+      // the ordered products back from. Saved-for-later lines weren't ordered.
+      return {
+        ...state,
+        products: [],
+        couponCodes: [],
+        installmentCount: 1,
+        past: [],
+        future: [],
+        lastAction: action,
+      };
+    case 'replace':
+      // Restored or synced carts start a fresh history: undoing past them
+      // would bring back a cart the shopper never saw in this tab.
+      return {
+        ...state,
+        products: action.products,
+        savedProducts: action.savedProducts || state.savedProducts,
+        couponCodes: action.couponCodes || state.couponCodes,
+        past: [],
+        future: [],
+        lastAction: action,
+      };
+    case 'applyCoupon':
+      return state.couponCodes.includes(action.code)
+        ? state
+        : {
+            ...state,
+            couponCodes: [...state.couponCodes, action.code],
+            lastAction: action,
+          };
+    case 'removeCoupon':
+      return {
+        ...state,
+        couponCodes: state.couponCodes.filter(
+          (code: string) => code !== action.code
+        ),
+        lastAction: action,
+      };
+    case 'selectInstallments':
+      return { ...state, installmentCount: action.count, lastAction: action };
+    case 'saveForLater': {
+      const line = findCartLine(state.products, action.product);
+
+      // Saved lines keep their quantity and size, and merge into a saved
+      // line of the same product and size.
+      return line
+        ? recordAction(
+            state,
+            action,
+            applyCartAction(state.products, action),
+            applyCartAction(state.savedProducts, { type: 'add', product: line })
+          )
+        : state;
+    }
+    case 'moveToCart': {
+      const line = findCartLine(state.savedProducts, action.product);
+
+      return line
+        ? recordAction(
+            state,
+            action,
+            applyCartAction(state.products, {
+              type: 'moveToCart',
+              product: line,
+            }),
+            applyCartAction(state.savedProducts, {
+              type: 'remove',
+              product: line,
+            })
+          )
+        : state;
+    }
+    default: {
+      const products = applyCartAction(state.products, action);
+
+      if (products === state.products) {
+        return state;
+      }
+
+      return {
+        ...recordAction(state, action, products),
+        // Coupons and the installment plan belong to the order being built;
+        // a cleared cart starts over.
+        ...(action.type === 'clear' && {
+          couponCodes: [],
+          installmentCount: 1,
+        }),
+      };
+    }
+  }
+};
@@ -1,2 +1,7 @@
-export { CartProvider } from './CartContextProvider';
+export {
+  CartProvider,
+  useCartState,
+  useCartActions,
+} from './CartContextProvider';
 export { default as useCart } from './useCart';
+export type { CartAction, CartReducerAction } from './cartReducer';
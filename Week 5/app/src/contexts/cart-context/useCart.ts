@@ -1,32 +1,59 @@
-import { useCartContext } from './CartContextProvider';
+import { useCartActions, useCartState } from './CartContextProvider';
 import useCartProducts from './useCartProducts';
 import useCartTotal from './useCartTotal';
+import useCartHistory from './useCartHistory';
+import useCartCoupons from './useCartCoupons';
+import useCartInstallments from './useCartInstallments';
 
+/*
+ * The whole cart: re-renders on every cart change. Components that need less
+ * can use useCartState with a selector, or useCartActions alone.
+ */
 const useCart = () => {
-  const { isOpen, setIsOpen } = useCartContext();
+  const isOpen = useCartState(({ isOpen }) => isOpen);
+  const { openCart, closeCart } = useCartActions();
   const {
     products,
+    savedProducts,
     addProduct,
     removeProduct,
     increaseProductQuantity,
     decreaseProductQuantity,
+    changeProductSize,
+    clearCart,
+    saveProductForLater,
+    moveSavedProductToCart,
   } = useCartProducts();
-  const { total, updateCartTotal } = useCartTotal();
-
-  const openCart = () => setIsOpen(true);
-  const closeCart = () => setIsOpen(false);
+  const { total } = useCartTotal();
+  const { canUndo, canRedo, lastAction, undo, redo } = useCartHistory();
+  const { couponCodes, applyCoupon, removeCoupon } = useCartCoupons();
+  const { installmentCount, selectInstallments } = useCartInstallments();
 
   return {
     isOpen,
     openCart,
     closeCart,
     products,
+    savedProducts,
     addProduct,
     removeProduct,
     increaseProductQuantity,
     decreaseProductQuantity,
+    changeProductSize,
+    clearCart,
+    saveProductForLater,
+    moveSavedProductToCart,
     total,
-    updateCartTotal,
+    canUndo,
+    canRedo,
+    lastAction,
+    undo,
+    redo,
+    couponCodes,
+    applyCoupon,
+    removeCoupon,
+    installmentCount,
+    selectInstallments,
   };
 };
 
@@ -0,0 +1,14 @@
+import { useCartActions, useCartState } from './CartContextProvider';
+
+const useCartCoupons = () => {
+  const couponCodes = useCartState(({ couponCodes }) => couponCodes);
+  const { applyCoupon, removeCoupon } = useCartActions();
+
+  return {
+    couponCodes,
+    applyCoupon,
+    removeCoupon,
+  };
+};
+
+export default useCartCoupons;
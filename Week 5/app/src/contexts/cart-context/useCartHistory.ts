@@ -0,0 +1,21 @@
+import { useCartActions, useCartState } from './CartContextProvider';
+import { shallowEqual } from 'services/store';
+
+const useCartHistory = () => {
+  const { past, future, lastAction } = useCartState(
+    ({ past, future, lastAction }) => ({ past, future, lastAction }),
+    shallowEqual
+  );
+  const { undo, redo } = useCartActions();
+
+  return {
+    history: past,
+    canUndo: !!past?.length,
+    canRedo: !!future?.length,
+    lastAction,
+    undo,
+    redo,
+  };
+};
+
+export default useCartHistory;
@@ -0,0 +1,15 @@
+import { useCartActions, useCartState } from './CartContextProvider';
+
+const useCartInstallments = () => {
+  const installmentCount = useCartState(
+    ({ installmentCount }) => installmentCount
+  );
+  const { selectInstallments } = useCartActions();
+
+  return {
+    installmentCount,
+    selectInstallments,
+  };
+};
+
+export default useCartInstallments;
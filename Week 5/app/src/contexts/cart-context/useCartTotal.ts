@@ -1,46 +1,10 @@
-import { useCartContext } from './CartContextProvider';
-import { ICartProduct } from 'models';
+import { useCartState } from './CartContextProvider';
 
 const useCartTotal = () => {
-  const { total, setTotal } = useCartContext();
-
-  const updateCartTotal = (products: ICartProduct[]) => {
-    const productQuantity = products.reduce(
-      (sum: number, product: ICartProduct) => {
-        sum += product.quantity;
-        return sum;
-      },
-      0
-    );
-
-    const totalPrice = products.reduce((sum: number, product: ICartProduct) => {
-      sum += product.price * product.quantity;
-      return sum;
-    }, 0);
-
-    const installments = products.reduce(
-      (greater: number, product: ICartProduct) => {
-        greater =
-          product.installments > greater ? product.installments : greater;
-        return greater;
-      },
-      0
-    );
-
-    const total = {
-      productQuantity,
-      installments,
-      totalPrice,
-      currencyId: 'USD',
-      currencyFormat: '$',
-    };
-
-    setTotal(total);
-  };
+  const total = useCartState(({ total }) => total);
 
   return {
     total,
-    updateCartTotal,
   };
 };
 
@@ -0,0 +1,44 @@
+import { createContext, useContext, FC, ReactNode, useState } from 'react';
+
+import { BASE_CURRENCY_ID } from 'services/currency';
+
+export interface ICurrencyContext {
+  locale: string;
+  currencyId: string;
+  setCurrencyId(currencyId: string): void;
+}
+
+const CurrencyContext = createContext<ICurrencyContext | undefined>(undefined);
+const useCurrencyContext = (): ICurrencyContext => {
+  const context = useContext(CurrencyContext);
+
+  if (!context) {
+    throw new Error(
+      'useCurrencyContext must be used within a CurrencyProvider'
+    );
+  }
+
+  return context;
+};
+
+interface IProps {
+  locale?: string;
+  children?: ReactNode;
+}
+
+const CurrencyProvider: FC<IProps> = ({
+  locale = navigator.language || 'en-US',
+  ...props
+}) => {
+  const [currencyId, setCurrencyId] = useState(BASE_CURRENCY_ID);
+
+  const CurrencyContextValue: ICurrencyContext = {
+    locale,
+    currencyId,
+    setCurrencyId,
+  };
+
+  return <CurrencyContext.Provider value={CurrencyContextValue} {...props} />;
+};
+
+export { CurrencyProvider, useCurrencyContext };
@@ -0,0 +1,59 @@
+import { act, renderHook } from '@testing-library/react-hooks';
+import { ReactNode } from 'react';
+import { CurrencyProvider } from '..';
+import useCurrency from '../useCurrency';
+import { money } from 'utils/money';
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <CurrencyProvider locale="en-US">{children}</CurrencyProvider>
+);
+
+describe('[contexts] - currency-context', () => {
+  describe('useCurrency', () => {
+    test('should start in the base currency', () => {
+      const { result } = renderHook(() => useCurrency(), { wrapper });
+
+      expect(result.current.currencyId).toBe('USD');
+      expect(result.current.formatPrice(money(10.9, 'USD'))).toBe('$10.90');
+    });
+
+    test('should convert prices to the selected currency', () => {
+      const { result } = renderHook(() => useCurrency(), { wrapper });
+
+      act(() => result.current.setCurrency('JPY'));
+
+      expect(result.current.convert(money(10.9, 'USD'))).toEqual(
+        money(1648, 'JPY')
+      );
+      expect(result.current.formatPrice(money(10.9, 'USD'))).toBe('¥1,648');
+      expect(result.current.getPriceParts(money(10.9, 'USD'))).toEqual({
+        currency: '¥',
+        integer: '1,648',
+        fraction: '',
+        currencyPosition: 'before',
+      });
+    });
+
+    test('should format for the provider locale', () => {
+      const { result } = renderHook(() => useCurrency(), {
+        wrapper: ({ children }: { children: ReactNode }) => (
+          <CurrencyProvider locale="pt-BR">{children}</CurrencyProvider>
+        ),
+      });
+
+      act(() => result.current.setCurrency('BRL'));
+
+      expect(result.current.formatPrice(money(10.9, 'USD'))).toBe(
+        'R$\u00a055,05'
+      );
+    });
+
+    test('should throw outside of a CurrencyProvider', () => {
+      const { result } = renderHook(() => useCurrency());
+
+      expect(result.error?.message).toBe(
+        'useCurrencyContext must be used within a CurrencyProvider'
+      );
+    });
+  });
+});
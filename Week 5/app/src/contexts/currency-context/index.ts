@@ -0,0 +1,2 @@
+export { CurrencyProvider } from './CurrencyContextProvider';
+export { default as useCurrency } from './useCurrency';
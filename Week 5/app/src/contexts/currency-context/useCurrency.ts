@@ -0,0 +1,40 @@
+import { useCallback } from 'react';
+
+import { useCurrencyContext } from './CurrencyContextProvider';
+import { IMoney } from 'models';
+import { convertMoney, currencies } from 'services/currency';
+import formatPriceIn, {
+  getPriceParts as getPricePartsIn,
+} from 'utils/formatPrice';
+
+const useCurrency = () => {
+  const { locale, currencyId, setCurrencyId } = useCurrencyContext();
+
+  const convert = useCallback(
+    (price: IMoney) => convertMoney(price, currencyId),
+    [currencyId]
+  );
+
+  /* Converts an amount to the active currency and formats it for the locale */
+  const formatPrice = useCallback(
+    (price: IMoney) => formatPriceIn(convert(price), locale),
+    [convert, locale]
+  );
+
+  const getPriceParts = useCallback(
+    (price: IMoney) => getPricePartsIn(convert(price), locale),
+    [convert, locale]
+  );
+
+  return {
+    locale,
+    currencyId,
+    currencies,
+    setCurrency: setCurrencyId,
+    convert,
+    formatPrice,
+    getPriceParts,
+  };
+};
+
+export default useCurrency;
@@ -1,44 +1,206 @@
-import { createContext, useContext, FC, useState } from 'react';
+import {
+  createContext,
+  useContext,
+  FC,
+  ReactNode,
+  useEffect,
+  useRef,
+  useState,
+} from 'react';
 
-import { IProduct } from 'models';
+import {
+  FacetSelection,
+  ICatalogView,
+  IProduct,
+  PaginationMode,
+  ProductSortId,
+} from 'models';
+import {
+  createCatalogHistory,
+  ICatalogHistory,
+  readCatalogView,
+} from 'services/catalog-url';
+import { DEFAULT_PAGE_SIZE, getPaginationMode } from 'services/pagination';
+import { productsQuery } from 'services/products-query';
+import { IQueryState } from 'services/query-cache';
+import {
+  createStore,
+  IReadableStore,
+  IStore,
+  shallowEqual,
+} from 'services/store';
+import useStoreSelector from 'contexts/useStoreSelector';
 
-export interface IProductsContext {
-  isFetching: boolean;
-  setIsFetching(state: boolean): void;
-  products: IProduct[];
-  setProducts(products: IProduct[]): void;
-  filters: string[];
-  setFilters(filters: string[]): void;
-}
+import { createProductsActions, IProductsActions } from './productsActions';
+import {
+  createProductsView,
+  IProductsContext,
+  IProductsState,
+} from './productsView';
+
+// Like the cart, the product list is a store read through selectors and its
+// actions a separate context that never changes.
+const ProductsStateContext = createContext<
+  IReadableStore<IProductsContext> | undefined
+>(undefined);
+const ProductsActionsContext = createContext<IProductsActions | undefined>(
+  undefined
+);
+
+const useProductsStore = (): IReadableStore<IProductsContext> => {
+  const store = useContext(ProductsStateContext);
+
+  if (!store) {
+    throw new Error('useProductsState must be used within a ProductsProvider');
+  }
+
+  return store;
+};
 
-const ProductsContext = createContext<IProductsContext | undefined>(undefined);
-const useProductsContext = (): IProductsContext => {
-  const context = useContext(ProductsContext);
+/* The part of the product list `selector` picks */
+const useProductsState = <S,>(
+  selector: (products: IProductsContext) => S,
+  isEqual?: (a: S, b: S) => boolean
+): S => useStoreSelector(useProductsStore(), selector, isEqual);
 
-  if (!context) {
+const useProductsActions = (): IProductsActions => {
+  const actions = useContext(ProductsActionsContext);
+
+  if (!actions) {
     throw new Error(
-      'useProductsContext must be used within a ProductsProvider'
+      'useProductsActions must be used within a ProductsProvider'
     );
   }
 
-  return context;
+  return actions;
+};
+
+interface IProductsProviderProps {
+  /* Defaults to REACT_APP_PAGINATION_MODE */
+  paginationMode?: PaginationMode;
+  pageSize?: number;
+  children?: ReactNode;
+}
+
+/* Changing what's shown starts over from its first page */
+const updateResults = (
+  store: IStore<IProductsState>,
+  changes: Partial<IProductsState>
+) => {
+  const state = store.getState();
+  const hasChanged = (Object.keys(changes) as (keyof IProductsState)[]).some(
+    (key) => !Object.is(changes[key], state[key])
+  );
+
+  if (hasChanged) {
+    store.setState({ ...state, ...changes, page: 1 });
+  }
 };
 
-const ProductsProvider: FC = (props) => {
-  const [isFetching, setIsFetching] = useState(false);
-  const [products, setProducts] = useState<IProduct[]>([]);
-  const [filters, setFilters] = useState<string[]>([]);
-
-  const ProductContextValue: IProductsContext = {
-    isFetching,
-    setIsFetching,
-    products,
-    setProducts,
-    filters,
-    setFilters,
-  };
-
-  return <ProductsContext.Provider value={ProductContextValue} {...props} />;
+const selectCatalogView = ({
+  filters,
+  sort,
+  query,
+}: IProductsContext): ICatalogView => ({ filters, sort, query });
+
+const ProductsProvider: FC<IProductsProviderProps> = ({
+  paginationMode = getPaginationMode(),
+  pageSize = DEFAULT_PAGE_SIZE,
+  ...props
+}) => {
+  // Filters, sort and search start from the URL so shared links and reloads
+  // show the same view.
+  const [initialView] = useState(readCatalogView);
+  const [store] = useState(() =>
+    createStore<IProductsState>({
+      catalogState: productsQuery.getState(),
+      paginationMode,
+      ...initialView,
+      page: 1,
+      pageSize,
+    })
+  );
+  // The context hands out the product list built from the state, read
+  // fresh every time so actions never see an outdated page count.
+  const [viewStore] = useState((): IReadableStore<IProductsContext> => {
+    const getView = createProductsView();
+
+    return {
+      getState: () => getView(store.getState()),
+      subscribe: store.subscribe,
+    };
+  });
+  const [actions] = useState(() =>
+    createProductsActions(
+      {
+        setFilters: (filters: FacetSelection) =>
+          updateResults(store, { filters }),
+        setSort: (sort: ProductSortId) => updateResults(store, { sort }),
+        setQuery: (query: string) => updateResults(store, { query }),
+        setPage: (page: number) =>
+          store.setState({ ...store.getState(), page }),
+        setPageSize: (pageSize: number) => updateResults(store, { pageSize }),
+      },
+      viewStore.getState
+    )
+  );
+  const { filters, sort, query } = useStoreSelector(
+    viewStore,
+    selectCatalogView,
+    shallowEqual
+  );
+
+  const historyRef = useRef<ICatalogHistory>();
+  const lastViewRef = useRef<ICatalogView>(initialView);
+
+  useEffect(() => {
+    const state = store.getState();
+
+    if (state.paginationMode !== paginationMode) {
+      store.setState({ ...state, paginationMode });
+    }
+  }, [store, paginationMode]);
+
+  useEffect(() => {
+    const setCatalogState = (catalogState: IQueryState<IProduct[]>) =>
+      store.setState({ ...store.getState(), catalogState });
+
+    // The cache may have changed between the first render and now.
+    setCatalogState(productsQuery.getState());
+
+    return productsQuery.subscribe(setCatalogState);
+  }, [store]);
+
+  useEffect(() => {
+    const history = createCatalogHistory((view: ICatalogView) => {
+      lastViewRef.current = view;
+      updateResults(store, view);
+    });
+
+    historyRef.current = history;
+
+    return () => {
+      history.close();
+      historyRef.current = undefined;
+    };
+  }, [store]);
+
+  useEffect(() => {
+    const view: ICatalogView = { filters, sort, query };
+    const lastView = lastViewRef.current;
+    // Typing a search (or tidying up the URL we loaded with) replaces the
+    // current entry instead of adding one per keystroke.
+    const replace = lastView.filters === filters && lastView.sort === sort;
+
+    lastViewRef.current = view;
+    historyRef.current?.push(view, replace);
+  }, [filters, sort, query]);
+
+  return (
+    <ProductsActionsContext.Provider value={actions}>
+      <ProductsStateContext.Provider value={viewStore} {...props} />
+    </ProductsActionsContext.Provider>
+  );
 };
 
-export { ProductsProvider, useProductsContext };
+export { ProductsProvider, useProductsState, useProductsActions };
@@ -1,8 +1,10 @@
-import { renderHook } from '@testing-library/react-hooks';
-import { ICartProduct } from 'models';
-import React, { ReactNode } from 'react';
+import { renderHook, act } from '@testing-library/react-hooks';
+import { waitFor } from '@testing-library/react';
+import { ReactNode } from 'react';
+import { PaginationMode } from 'models';
 import { ProductsProvider } from '..';
 import useProducts from '../useProducts';
+import * as productsService from 'services/products';
 
 import { mockProducts } from 'utils/test/mocks';
 
@@ -12,74 +14,215 @@ const wrapper = ({ children }: { children: ReactNode }) => (
 
 describe('[contexts] - products-context', () => {
   describe('useProducts', () => {
-    let isFetching: boolean;
-    let products: ICartProduct[];
-    let filters: string[];
-    const originalUseContext = React.useContext;
-
-    const setupMockUseContext = (options: { [key: string]: any } = {}) => {
-      isFetching = false;
-      products = options.initialProducts || [];
-      filters = options.initialFilters || [];
-
-      const mockSetIsFetching = jest.fn().mockImplementation((newState) => {
-        isFetching = newState;
-        return isFetching;
-      });
-
-      const mockSetProducts = jest
-        .fn()
-        .mockImplementation((fetchedProducts) => {
-          products = fetchedProducts;
-          return products;
-        });
-      const mockSetFilters = jest.fn().mockImplementation((activeFilters) => {
-        filters = activeFilters;
-        return filters;
-      });
-
-      const mockUseContext = jest.fn().mockImplementation(() => ({
-        isFetching: false,
-        setIsFetching: mockSetIsFetching,
-        products: options.initialProducts,
-        setProducts: mockSetProducts,
-        filters: options.initialFilters,
-        setFilters: mockSetFilters,
-      }));
-      React.useContext = mockUseContext;
-    };
+    let getProducts: jest.SpyInstance;
+
+    beforeEach(() => {
+      getProducts = jest
+        .spyOn(productsService, 'getProducts')
+        .mockResolvedValue(mockProducts);
+    });
+
+    afterEach(() => {
+      getProducts.mockRestore();
+    });
+
+    const setup = async (providerWrapper = wrapper) => {
+      const view = renderHook(() => useProducts(), {
+        wrapper: providerWrapper,
+      });
+
+      act(() => {
+        view.result.current.fetchProducts();
+      });
+      await view.waitForNextUpdate();
 
-    const resetMocks = () => {
-      React.useContext = originalUseContext;
+      return view;
     };
 
-    describe('fetchProducts', () => {
-      afterEach(() => {
-        resetMocks();
-      });
-
-      test('should filter products', async () => {
-        setupMockUseContext({ initialProducts: mockProducts });
-
-        const { result } = renderHook(() => useProducts(), { wrapper });
-
-        expect(products).toEqual(mockProducts);
-        await result.current.filterProducts(['M']);
-        expect(products).toEqual([
-          {
-            availableSizes: ['M', 'ML'],
-            currencyFormat: '$',
-            currencyId: 'USD',
-            description: '',
-            id: 13,
-            installments: 5,
-            isFreeShipping: true,
-            price: 29.45,
-            sku: 51498472915966370,
-            style: 'Tule',
-            title: 'Black Tule Oversized',
-          },
-        ]);
+    test('should fetch the catalog', async () => {
+      const { result } = await setup();
+
+      expect(result.current.isFetching).toBe(false);
+      expect(result.current.products).toEqual(mockProducts);
+      expect(result.current.facets.map(({ id }) => id)).toEqual([
+        'size',
+        'style',
+        'price',
+        'freeShipping',
+      ]);
+    });
+
+    test('should show cached products on the next mount without a cold load', async () => {
+      const first = await setup();
+      first.unmount();
+
+      const { result } = renderHook(() => useProducts(), { wrapper });
+      act(() => {
+        result.current.fetchProducts();
+      });
+
+      expect(result.current.isFetching).toBe(false);
+      expect(result.current.products).toEqual(mockProducts);
+      expect(getProducts).toHaveBeenCalledTimes(1);
+    });
+
+    test('should filter products without fetching them again', async () => {
+      const { result } = await setup();
+
+      act(() => {
+        result.current.filterProducts({ size: ['ML'] });
+      });
+
+      expect(result.current.products).toEqual([mockProducts[1]]);
+      expect(result.current.filters).toEqual({ size: ['ML'] });
+      expect(getProducts).toHaveBeenCalledTimes(1);
+    });
+
+    test('should toggle a single filter option', async () => {
+      const { result } = await setup();
+
+      act(() => {
+        result.current.toggleFilter('style', 'Tony Hawk');
+      });
+      expect(result.current.products).toEqual([mockProducts[2]]);
+
+      act(() => {
+        result.current.toggleFilter('style', 'Tony Hawk');
+      });
+      expect(result.current.products).toEqual(mockProducts);
+    });
+
+    test('should restore the view from the URL', async () => {
+      window.history.replaceState(
+        null,
+        '',
+        '/?size=XL&sort=priceDesc&q=skater'
+      );
+
+      const { result } = await setup();
+
+      expect(result.current.filters).toEqual({ size: ['XL'] });
+      expect(result.current.sort).toBe('priceDesc');
+      expect(result.current.query).toBe('skater');
+      expect(result.current.products).toEqual([mockProducts[2]]);
+    });
+
+    test('should keep the view in the URL', async () => {
+      const { result } = await setup();
+
+      act(() => {
+        result.current.toggleFilter('size', 'L');
+      });
+      act(() => {
+        result.current.sortProducts('newest');
+      });
+      act(() => {
+        result.current.search('cactus');
+      });
+
+      expect(window.location.search).toBe('?size=L&sort=newest&q=cactus');
+    });
+
+    test('should step through filter changes with back and forward', async () => {
+      const { result } = await setup();
+
+      act(() => {
+        result.current.toggleFilter('size', 'L');
+      });
+      act(() => {
+        result.current.toggleFilter('size', 'XL');
+      });
+
+      act(() => {
+        window.history.back();
+      });
+      await waitFor(() =>
+        expect(result.current.filters).toEqual({ size: ['L'] })
+      );
+      expect(result.current.products).toEqual([
+        mockProducts[0],
+        mockProducts[1],
+      ]);
+
+      act(() => {
+        window.history.forward();
+      });
+      await waitFor(() =>
+        expect(result.current.filters).toEqual({ size: ['L', 'XL'] })
+      );
+    });
+
+    describe('pagination', () => {
+      const pagedWrapper =
+        (paginationMode: PaginationMode, pageSize = 2) =>
+        ({ children }: { children: ReactNode }) =>
+          (
+            <ProductsProvider
+              paginationMode={paginationMode}
+              pageSize={pageSize}
+            >
+              {children}
+            </ProductsProvider>
+          );
+
+      test('should show one page at a time', async () => {
+        const { result } = await setup(pagedWrapper('pages'));
+
+        expect(result.current.products).toEqual(mockProducts.slice(0, 2));
+        expect(result.current.totalCount).toBe(3);
+        expect(result.current.pageCount).toBe(2);
+
+        act(() => {
+          result.current.goToPage(2);
+        });
+
+        expect(result.current.page).toBe(2);
+        expect(result.current.products).toEqual([mockProducts[2]]);
+
+        act(() => {
+          result.current.goToPage(5);
+        });
+
+        expect(result.current.page).toBe(2);
+      });
+
+      test('should keep the loaded pages in infinite mode', async () => {
+        const { result } = await setup(pagedWrapper('infinite'));
+
+        expect(result.current.products).toEqual(mockProducts.slice(0, 2));
+
+        act(() => {
+          result.current.loadMore();
+        });
+
+        expect(result.current.products).toEqual(mockProducts);
+      });
+
+      test('should load one more page on each call in the same handler', async () => {
+        const { result } = await setup(pagedWrapper('infinite', 1));
+
+        act(() => {
+          result.current.loadMore();
+          result.current.loadMore();
+        });
+
+        expect(result.current.page).toBe(3);
+        expect(result.current.products).toEqual(mockProducts);
+      });
+
+      test('should go back to the first page when the filters change', async () => {
+        const { result } = await setup(pagedWrapper('pages'));
+
+        act(() => {
+          result.current.goToPage(2);
+        });
+        act(() => {
+          result.current.toggleFilter('size', 'L');
+        });
+
+        expect(result.current.page).toBe(1);
+        expect(result.current.totalCount).toBe(2);
+        expect(result.current.products).toEqual(mockProducts.slice(0, 2));
       });
     });
   });
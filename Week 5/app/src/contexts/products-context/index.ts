@@ -1,2 +1,6 @@
-export { ProductsProvider } from './ProductsContextProvider';
+export {
+  ProductsProvider,
+  useProductsState,
+  useProductsActions,
+} from './ProductsContextProvider';
 export { default as useProducts } from './useProducts';
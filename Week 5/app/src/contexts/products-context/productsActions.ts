@@ -0,0 +1,67 @@
+import { FacetId, FacetSelection, ProductSortId } from 'models';
+import { toggleFacetValue } from 'services/facets';
+import { productsQuery } from 'services/products-query';
+
+export interface IProductsActions {
+  /* Cached products show right away; the provider picks up the refresh */
+  fetchProducts(): void;
+  /* Drops the cached catalog and loads it again */
+  reloadProducts(): void;
+  /* Filtering runs over the loaded catalog; nothing is fetched again */
+  filterProducts(filters: FacetSelection): void;
+  toggleFilter(facetId: FacetId, value: string): void;
+  sortProducts(sort: ProductSortId): void;
+  search(query: string): void;
+  goToPage(page: number): void;
+  /* Starts over from the first page */
+  setPageSize(pageSize: number): void;
+  /* Infinite scroll: adds the next page below the ones already shown */
+  loadMore(): void;
+  clearFilters(): void;
+}
+
+interface IProductsSetters {
+  setFilters(filters: FacetSelection): void;
+  setSort(sort: ProductSortId): void;
+  setQuery(query: string): void;
+  setPage(page: number): void;
+  setPageSize(pageSize: number): void;
+}
+
+/*
+ * Everything that changes the product list. Built once per provider, so
+ * components that only change the list never re-render when it does.
+ */
+export const createProductsActions = (
+  { setFilters, setSort, setQuery, setPage, setPageSize }: IProductsSetters,
+  getView: () => { filters: FacetSelection; page: number; pageCount: number }
+): IProductsActions => {
+  const goToPage = (page: number) =>
+    setPage(Math.min(Math.max(page, 1), getView().pageCount));
+
+  const fetchProducts = () => {
+    productsQuery.fetch().catch(() => {
+      // The error reaches the context through the cache state.
+    });
+  };
+
+  return {
+    fetchProducts,
+    reloadProducts: () => {
+      productsQuery.invalidate();
+      fetchProducts();
+    },
+    filterProducts: setFilters,
+    toggleFilter: (facetId: FacetId, value: string) =>
+      setFilters(toggleFacetValue(getView().filters, facetId, value)),
+    sortProducts: setSort,
+    search: setQuery,
+    goToPage,
+    setPageSize,
+    loadMore: () => goToPage(getView().page + 1),
+    clearFilters: () => {
+      setFilters({});
+      setQuery('');
+    },
+  };
+};
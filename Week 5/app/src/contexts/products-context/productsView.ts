@@ -0,0 +1,133 @@
+import {
+  FacetSelection,
+  IFacet,
+  IProduct,
+  PaginationMode,
+  ProductSortId,
+} from 'models';
+import { filterCatalog, getFacets } from 'services/facets';
+import { getPageCount, paginate } from 'services/pagination';
+import { sortProducts } from 'services/product-sort';
+import { IQueryState } from 'services/query-cache';
+import {
+  createSearchIndex,
+  ISearchDocument,
+  ISearchResult,
+  searchProducts,
+} from 'services/search';
+import memoizeLast from 'utils/memoizeLast';
+
+/* What the product list is built from: the catalog and the shopper's picks */
+export interface IProductsState {
+  catalogState: IQueryState<IProduct[]>;
+  paginationMode: PaginationMode;
+  filters: FacetSelection;
+  sort: ProductSortId;
+  query: string;
+  page: number;
+  pageSize: number;
+}
+
+export interface IProductsContext {
+  /* Loading with nothing to show yet; refreshes of cached data don't count */
+  isFetching: boolean;
+  isRevalidating: boolean;
+  /* The catalog has been fetched, even if it came back empty */
+  hasLoaded: boolean;
+  /* Why the catalog couldn't be loaded, once the retries ran out */
+  error?: unknown;
+  /* Every product, from the products cache; `products` is the filtered view */
+  catalog: IProduct[];
+  /* The products on screen: the current page, or every page loaded so far */
+  products: IProduct[];
+  /* Products matching the filters and search, across all pages */
+  totalCount: number;
+  paginationMode: PaginationMode;
+  page: number;
+  pageSize: number;
+  pageCount: number;
+  facets: IFacet[];
+  filters: FacetSelection;
+  sort: ProductSortId;
+  query: string;
+  /* Words each product matched the query on, by product id */
+  searchMatches: Record<number, string[]>;
+}
+
+/*
+ * Builds the product list from the state. Each step keeps its last result
+ * and only runs again when its own inputs change, so turning a page doesn't
+ * search and filter the catalog again.
+ */
+export const createProductsView = () => {
+  const getCatalog = memoizeLast((data?: IProduct[]) => data || []);
+  const getSearchIndex = memoizeLast(createSearchIndex);
+  const getSearchResults = memoizeLast(
+    (index: ISearchDocument[], query: string) =>
+      query.trim() ? searchProducts(index, query) : undefined
+  );
+  // Search results come ranked by relevance; filters and sorts keep that
+  // order for ties, and facets only count what the search found.
+  const getSearchedCatalog = memoizeLast(
+    (searchResults: ISearchResult[] | undefined, catalog: IProduct[]) =>
+      searchResults
+        ? searchResults.map(({ product }: ISearchResult) => product)
+        : catalog
+  );
+  const getSearchMatches = memoizeLast(
+    (searchResults: ISearchResult[] | undefined) =>
+      Object.fromEntries(
+        (searchResults || []).map(({ product, matches }: ISearchResult) => [
+          product.id,
+          matches,
+        ])
+      )
+  );
+  const getMatchingProducts = memoizeLast(
+    (catalog: IProduct[], filters: FacetSelection, sort: ProductSortId) =>
+      sortProducts(filterCatalog(catalog, filters), sort)
+  );
+  const getPage = memoizeLast(paginate);
+  const getCatalogFacets = memoizeLast(getFacets);
+
+  return memoizeLast((state: IProductsState): IProductsContext => {
+    const { catalogState, paginationMode, filters, sort, query, pageSize } =
+      state;
+    const catalog = getCatalog(catalogState.data);
+    const searchResults = getSearchResults(getSearchIndex(catalog), query);
+    const searchedCatalog = getSearchedCatalog(searchResults, catalog);
+    const matchingProducts = getMatchingProducts(
+      searchedCatalog,
+      filters,
+      sort
+    );
+    const totalCount = matchingProducts.length;
+    const pageCount = getPageCount(totalCount, pageSize);
+    // A refreshed catalog can come back shorter than the page we're on.
+    const page = Math.min(state.page, pageCount);
+
+    return {
+      isFetching: catalogState.isFetching && !catalogState.data,
+      isRevalidating: catalogState.isFetching && !!catalogState.data,
+      hasLoaded: !!catalogState.data,
+      // A failed refresh keeps showing the cached catalog, so it isn't an
+      // error.
+      error:
+        !catalogState.data && !catalogState.isFetching
+          ? catalogState.error
+          : undefined,
+      catalog,
+      products: getPage(matchingProducts, page, pageSize, paginationMode),
+      totalCount,
+      paginationMode,
+      page,
+      pageSize,
+      pageCount,
+      facets: getCatalogFacets(searchedCatalog, filters),
+      filters,
+      sort,
+      query,
+      searchMatches: getSearchMatches(searchResults),
+    };
+  });
+};
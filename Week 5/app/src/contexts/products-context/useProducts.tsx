@@ -1,55 +1,72 @@
-import { useCallback } from 'react';
-
-import { useProductsContext } from './ProductsContextProvider';
-import { IProduct } from 'models';
-import { getProducts } from 'services/products';
+import {
+  useProductsActions,
+  useProductsState,
+} from './ProductsContextProvider';
+import { IProductsContext } from './productsView';
 
+/*
+ * The whole product list: re-renders on every change to it. Components that
+ * show one part can use useProductsState with a selector instead.
+ */
 const useProducts = () => {
   const {
     isFetching,
-    setIsFetching,
+    isRevalidating,
+    hasLoaded,
+    error,
+    catalog,
     products,
-    setProducts,
+    totalCount,
+    paginationMode,
+    page,
+    pageSize,
+    pageCount,
+    facets,
     filters,
-    setFilters,
-  } = useProductsContext();
-
-  const fetchProducts = useCallback(() => {
-    setIsFetching(true);
-    getProducts().then((products: IProduct[]) => {
-      setIsFetching(false);
-      setProducts(products);
-    });
-  }, [setIsFetching, setProducts]);
-
-  const filterProducts = (filters: string[]) => {
-    setIsFetching(true);
-
-    getProducts().then((products: IProduct[]) => {
-      setIsFetching(false);
-      let filteredProducts;
-
-      if (filters && filters.length > 0) {
-        filteredProducts = products.filter((p: IProduct) =>
-          filters.find((filter: string) =>
-            p.availableSizes.find((size: string) => size === filter)
-          )
-        );
-      } else {
-        filteredProducts = products;
-      }
-
-      setFilters(filters);
-      setProducts(filteredProducts);
-    });
-  };
+    sort,
+    query,
+    searchMatches,
+  } = useProductsState((view: IProductsContext) => view);
+  const {
+    fetchProducts,
+    reloadProducts,
+    filterProducts,
+    toggleFilter,
+    sortProducts,
+    search,
+    goToPage,
+    setPageSize,
+    loadMore,
+    clearFilters,
+  } = useProductsActions();
 
   return {
     isFetching,
+    isRevalidating,
+    hasLoaded,
+    error,
     fetchProducts,
+    reloadProducts,
+    catalog,
     products,
+    totalCount,
+    paginationMode,
+    page,
+    pageSize,
+    setPageSize,
+    pageCount,
+    goToPage,
+    loadMore,
+    facets,
     filterProducts,
+    toggleFilter,
     filters,
+    sort,
+    sortProducts,
+    query,
+    search,
+    clearFilters,
+    searchMatches,
   };
 };
 
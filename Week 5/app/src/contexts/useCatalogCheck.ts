@@ -0,0 +1,43 @@
+import { useEffect, useRef, useState } from 'react';
+
+import { IProduct } from 'models';
+import { productsQuery } from 'services/products-query';
+
+/*
+ * Checks what a provider restored from storage against the catalog, once,
+ * after mounting. Nothing is fetched when nothing was restored, and
+ * `reconcile` is skipped if the provider unmounts first.
+ */
+const useCatalogCheck = (
+  hasRestored: boolean,
+  reconcile: (catalog: IProduct[]) => void
+) => {
+  const [shouldCheck] = useState(hasRestored);
+  const reconcileRef = useRef(reconcile);
+  reconcileRef.current = reconcile;
+
+  useEffect(() => {
+    if (!shouldCheck) {
+      return;
+    }
+
+    let isSubscribed = true;
+
+    productsQuery
+      .fetch()
+      .then((catalog: IProduct[]) => {
+        if (isSubscribed && catalog) {
+          reconcileRef.current(catalog);
+        }
+      })
+      .catch(() => {
+        // Keep what was restored as is when the catalog can't be checked.
+      });
+
+    return () => {
+      isSubscribed = false;
+    };
+  }, [shouldCheck]);
+};
+
+export default useCatalogCheck;
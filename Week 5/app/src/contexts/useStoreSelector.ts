@@ -0,0 +1,40 @@
+import { useRef, useSyncExternalStore } from 'react';
+
+import { IReadableStore } from 'services/store';
+
+/*
+ * Reads `selector(state)` from a store and re-renders only when that result
+ * changes, by `isEqual`. Pass shallowEqual when the selector builds an object.
+ */
+const useStoreSelector = <T, S>(
+  store: IReadableStore<T>,
+  selector: (state: T) => S,
+  isEqual: (a: S, b: S) => boolean = Object.is
+): S => {
+  // useSyncExternalStore needs the same value back while the state hasn't
+  // changed, and a selector that builds an object returns a new one each
+  // call, so the last equal result is handed back instead.
+  const lastRef =
+    useRef<{ state: T; selector: typeof selector; selected: S }>();
+
+  const getSelected = () => {
+    const state = store.getState();
+    const last = lastRef.current;
+
+    if (last && last.state === state && last.selector === selector) {
+      return last.selected;
+    }
+
+    const selected = selector(state);
+    const next =
+      last && isEqual(last.selected, selected) ? last.selected : selected;
+
+    lastRef.current = { state, selector, selected: next };
+
+    return next;
+  };
+
+  return useSyncExternalStore(store.subscribe, getSelected);
+};
+
+export default useStoreSelector;
@@ -0,0 +1,65 @@
+import {
+  createContext,
+  useContext,
+  FC,
+  ReactNode,
+  useEffect,
+  useState,
+} from 'react';
+import { IProduct, IWishlistProduct } from 'models';
+import {
+  loadWishlist,
+  reconcileWishlist,
+  saveWishlist,
+} from 'services/wishlist-storage';
+import useCatalogCheck from 'contexts/useCatalogCheck';
+
+export interface IWishlistContext {
+  isOpen: boolean;
+  setIsOpen(state: boolean): void;
+  products: IWishlistProduct[];
+  setProducts(products: IWishlistProduct[]): void;
+}
+
+const WishlistContext = createContext<IWishlistContext | undefined>(undefined);
+const useWishlistContext = (): IWishlistContext => {
+  const context = useContext(WishlistContext);
+
+  if (!context) {
+    throw new Error(
+      'useWishlistContext must be used within a WishlistProvider'
+    );
+  }
+
+  return context;
+};
+
+interface IProps {
+  children?: ReactNode;
+}
+
+const WishlistProvider: FC<IProps> = (props) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [products, setProducts] = useState<IWishlistProduct[]>(loadWishlist);
+
+  useEffect(() => {
+    saveWishlist(products);
+  }, [products]);
+
+  useCatalogCheck(!!products.length, (catalog: IProduct[]) =>
+    setProducts((products: IWishlistProduct[]) =>
+      reconcileWishlist(products, catalog)
+    )
+  );
+
+  const WishlistContextValue: IWishlistContext = {
+    isOpen,
+    setIsOpen,
+    products,
+    setProducts,
+  };
+
+  return <WishlistContext.Provider value={WishlistContextValue} {...props} />;
+};
+
+export { WishlistProvider, useWishlistContext };
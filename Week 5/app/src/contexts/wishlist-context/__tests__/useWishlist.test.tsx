@@ -0,0 +1,85 @@
+import { act, renderHook } from '@testing-library/react-hooks';
+import { ReactNode } from 'react';
+import { CartProvider, useCart } from 'contexts/cart-context';
+import { WishlistProvider } from '..';
+import useWishlist from '../useWishlist';
+import { loadWishlist } from 'services/wishlist-storage';
+
+import { mockCartProducts, mockProducts } from 'utils/test/mocks';
+
+const [groovy, cactus, skater] = mockProducts;
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <CartProvider>
+    <WishlistProvider>{children}</WishlistProvider>
+  </CartProvider>
+);
+
+describe('[contexts] - wishlist-context', () => {
+  describe('useWishlist', () => {
+    const setup = () =>
+      renderHook(() => ({ wishlist: useWishlist(), cart: useCart() }), {
+        wrapper,
+      });
+
+    test('should toggle a product in and out of the wishlist', () => {
+      const { result } = setup();
+
+      act(() => result.current.wishlist.toggleWishlist(groovy));
+      expect(result.current.wishlist.products).toEqual([groovy]);
+      expect(result.current.wishlist.isInWishlist(groovy)).toBe(true);
+
+      act(() => result.current.wishlist.toggleWishlist(groovy));
+      expect(result.current.wishlist.products).toEqual([]);
+    });
+
+    test('should persist the wishlist', () => {
+      const { result } = setup();
+
+      act(() => result.current.wishlist.toggleWishlist(cactus));
+      expect(loadWishlist()).toEqual([cactus]);
+    });
+
+    test('should move a product to the cart in the picked size', () => {
+      const { result } = setup();
+
+      act(() => result.current.wishlist.toggleWishlist(groovy));
+      act(() => result.current.wishlist.moveToCart(groovy));
+      expect(result.current.cart.products).toEqual([]);
+
+      act(() => result.current.wishlist.changeWishlistSize(groovy, 'XL'));
+      act(() =>
+        result.current.wishlist.moveToCart(result.current.wishlist.products[0])
+      );
+
+      expect(result.current.wishlist.products).toEqual([]);
+      expect(result.current.cart.products).toEqual([
+        { ...groovy, quantity: 1, selectedSize: 'XL' },
+      ]);
+    });
+
+    test('should not need a size for single-size products', () => {
+      const { result } = setup();
+
+      act(() => result.current.wishlist.toggleWishlist(skater));
+      act(() => result.current.wishlist.moveToCart(skater));
+
+      expect(result.current.cart.products).toEqual([
+        { ...skater, quantity: 1, selectedSize: 'XL' },
+      ]);
+    });
+
+    test('should move a cart line to the wishlist, keeping its size', () => {
+      const { result } = setup();
+      const [cartProduct] = mockCartProducts;
+
+      act(() => result.current.cart.addProduct(cartProduct));
+      act(() => result.current.wishlist.moveFromCart(cartProduct));
+
+      const { quantity, ...savedProduct } = cartProduct;
+
+      expect(result.current.cart.products).toEqual([]);
+      expect(result.current.wishlist.products).toEqual([savedProduct]);
+    });
+  });
+});
@@ -0,0 +1,2 @@
+export { WishlistProvider } from './WishlistContextProvider';
+export { default as useWishlist } from './useWishlist';
@@ -0,0 +1,85 @@
+import { useWishlistContext } from './WishlistContextProvider';
+import { ICartProduct, IProduct, IWishlistProduct } from 'models';
+import { useCartActions } from 'contexts/cart-context';
+
+const useWishlist = () => {
+  const { isOpen, setIsOpen, products, setProducts } = useWishlistContext();
+  const cart = useCartActions();
+
+  const openWishlist = () => setIsOpen(true);
+  const closeWishlist = () => setIsOpen(false);
+
+  const isInWishlist = ({ id }: IProduct) =>
+    products.some((product: IWishlistProduct) => product.id === id);
+
+  const removeFromWishlist = ({ id }: IProduct) =>
+    setProducts(
+      products.filter((product: IWishlistProduct) => product.id !== id)
+    );
+
+  // Saving a product again keeps one entry and updates its size.
+  const addToWishlist = (newProduct: IWishlistProduct) =>
+    setProducts([
+      ...products.filter(
+        (product: IWishlistProduct) => product.id !== newProduct.id
+      ),
+      newProduct,
+    ]);
+
+  const toggleWishlist = (product: IProduct) =>
+    isInWishlist(product)
+      ? removeFromWishlist(product)
+      : addToWishlist(product);
+
+  const changeWishlistSize = (
+    productToChange: IWishlistProduct,
+    selectedSize: string
+  ) =>
+    setProducts(
+      products.map((product: IWishlistProduct) =>
+        product.id === productToChange.id
+          ? { ...product, selectedSize }
+          : product
+      )
+    );
+
+  /* Products with a single size don't need one picked first */
+  const getSize = ({ selectedSize, availableSizes }: IWishlistProduct) =>
+    selectedSize ||
+    (availableSizes.length === 1 ? availableSizes[0] : undefined);
+
+  const moveToCart = (product: IWishlistProduct) => {
+    const selectedSize = getSize(product);
+
+    if (!selectedSize) {
+      return;
+    }
+
+    cart.addProduct({ ...product, quantity: 1, selectedSize });
+    removeFromWishlist(product);
+  };
+
+  const moveFromCart = (cartProduct: ICartProduct) => {
+    const { quantity, ...product } = cartProduct;
+
+    addToWishlist(product);
+    cart.removeProduct(cartProduct);
+  };
+
+  return {
+    isOpen,
+    openWishlist,
+    closeWishlist,
+    products,
+    isInWishlist,
+    addToWishlist,
+    removeFromWishlist,
+    toggleWishlist,
+    changeWishlistSize,
+    getSize,
+    moveToCart,
+    moveFromCart,
+  };
+};
+
+export default useWishlist;
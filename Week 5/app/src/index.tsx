@@ -9,6 +9,8 @@ import GlobalStyle from 'commons/style/global-style';
 /* Context Providers */
 import { ProductsProvider } from 'contexts/products-context';
 import { CartProvider } from 'contexts/cart-context';
+import { CurrencyProvider } from 'contexts/currency-context';
+import { WishlistProvider } from 'contexts/wishlist-context';
 
 import App from 'components/App';
 
@@ -19,11 +21,15 @@ container.render(
   <StrictMode>
     <ThemeProvider theme={theme}>
       <GlobalStyle />
-      <ProductsProvider>
-        <CartProvider>
-          <App />
-        </CartProvider>
-      </ProductsProvider>
+      <CurrencyProvider>
+        <ProductsProvider>
+          <CartProvider>
+            <WishlistProvider>
+              <App />
+            </WishlistProvider>
+          </CartProvider>
+        </ProductsProvider>
+      </CurrencyProvider>
     </ThemeProvider>
   </StrictMode>
 );
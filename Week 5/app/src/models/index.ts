@@ -1,3 +1,9 @@
+/* An amount in the currency's minor units, e.g. cents */
+export interface IMoney {
+  amount: number;
+  currencyId: string;
+}
+
 export interface IProduct {
   id: number;
   sku: number;
@@ -14,18 +20,163 @@ export interface IProduct {
 
 export interface ICartProduct extends IProduct {
   quantity: number;
+  selectedSize: string;
+}
+
+export interface IWishlistProduct extends IProduct {
+  /* Chosen in the wishlist or kept from the cart line it was saved from */
+  selectedSize?: string;
+}
+
+/* Amounts a text names as {key}, formatted in the shopper's currency */
+export type TextPrices = Record<string, IMoney>;
+
+export interface IAppliedDiscount {
+  code?: string;
+  description: string;
+  descriptionPrices: TextPrices;
+  amount: IMoney;
 }
 
 export interface ICartTotal {
   productQuantity: number;
+  /* Most installments every line in the cart allows */
   installments: number;
-  totalPrice: number;
-  currencyId: string;
-  currencyFormat: string;
+  subtotalPrice: IMoney;
+  discounts: IAppliedDiscount[];
+  discountTotal: IMoney;
+  totalPrice: IMoney;
+  hasFreeShipping: boolean;
+  shipping: IShippingQuote;
+  grandTotal: IMoney;
+}
+
+export interface ICurrency {
+  id: string;
+  label: string;
+  /* Units of this currency per unit of the base currency */
+  rate: number;
+}
+
+export interface IInstallmentTier {
+  /* Highest number of installments the tier covers */
+  maxCount: number;
+  /* Monthly interest rate, 0 for interest-free installments */
+  monthlyRate: number;
+}
+
+export interface IInstallmentPlan {
+  count: number;
+  monthlyRate: number;
+  /* The largest installment; uneven totals put the extra cents first */
+  installment: IMoney;
+  /* Every installment in order; they add up to `total` exactly */
+  payments: IMoney[];
+  interest: IMoney;
+  total: IMoney;
+}
+
+export type FacetId = 'size' | 'style' | 'price' | 'freeShipping';
+
+/* Selected option values per facet; an empty facet doesn't filter */
+export type FacetSelection = Partial<Record<FacetId, string[]>>;
+
+export interface IFacetOption {
+  value: string;
+  label: string;
+  /* Products this option would match, given the other facets' selections */
+  count: number;
+  /* Only set on price options, [from, to) */
+  range?: [IMoney, IMoney];
+}
+
+export interface IFacet {
+  id: FacetId;
+  label: string;
+  options: IFacetOption[];
 }
 
-export interface IGetProductsResponse {
-  data: {
-    products: IProduct[];
+export type ProductSortId =
+  | 'featured'
+  | 'priceAsc'
+  | 'priceDesc'
+  | 'newest'
+  | 'installments'
+  | 'freeShipping';
+
+export interface IProductSort {
+  id: ProductSortId;
+  label: string;
+}
+
+/* Numbered pages, or one growing list that loads the next page on scroll */
+export type PaginationMode = 'pages' | 'infinite';
+
+/* What the product grid shows: the part of the catalog state kept in the URL */
+export interface ICatalogView {
+  filters: FacetSelection;
+  sort: ProductSortId;
+  query: string;
+}
+
+export interface IContactInfo {
+  fullName: string;
+  email: string;
+  phone: string;
+}
+
+export interface IShippingAddress {
+  street: string;
+  city: string;
+  postalCode: string;
+  country: string;
+}
+
+export interface IPaymentDetails {
+  cardholderName: string;
+  cardNumber: string;
+  expiry: string;
+  cvc: string;
+}
+
+export type ShippingRegion = 'north-america' | 'south-america' | 'europe';
+
+export interface IShippingMethod {
+  id: string;
+  label: string;
+}
+
+export interface IShippingRate {
+  base: number;
+  perItem: number;
+  /* Business days, [earliest, latest] */
+  deliveryDays: [number, number];
+}
+
+export interface IShippingQuote {
+  method: IShippingMethod;
+  region: ShippingRegion;
+  price: IMoney;
+  deliveryDays: [number, number];
+}
+
+export interface IOrder {
+  contact: IContactInfo;
+  shippingAddress: IShippingAddress;
+  shippingMethod: IShippingMethod;
+  payment: {
+    cardholderName: string;
+    cardLast4: string;
   };
+  /* The currency the shopper saw; the installment plan is charged in it */
+  currencyId: string;
+  installmentPlan: IInstallmentPlan;
+  products: ICartProduct[];
+  total: ICartTotal;
+}
+
+export interface IOrderConfirmation {
+  orderId: string;
+  placedAt: string;
+  order: IOrder;
 }
@@ -0,0 +1,157 @@
+import {
+  CART_STORAGE_KEY,
+  CART_STORAGE_VERSION,
+  loadCart,
+  loadCouponCodes,
+  loadSavedProducts,
+  migrateCart,
+  reconcileCart,
+  saveCart,
+} from '../cart-storage';
+
+import { mockCartProducts, mockProducts } from 'utils/test/mocks';
+
+describe('[services] - cart-storage', () => {
+  describe('saveCart / loadCart', () => {
+    test('should restore a saved cart', () => {
+      saveCart(mockCartProducts);
+
+      expect(loadCart()).toEqual(mockCartProducts);
+    });
+
+    test('should restore the lines saved for later apart from the cart', () => {
+      saveCart([mockCartProducts[0]], [mockCartProducts[1]]);
+
+      expect(loadCart()).toEqual([mockCartProducts[0]]);
+      expect(loadSavedProducts()).toEqual([mockCartProducts[1]]);
+      expect(loadCouponCodes()).toEqual([]);
+    });
+
+    test('should keep applied coupons', () => {
+      saveCart(mockCartProducts, [], ['SAVE10']);
+
+      expect(loadCouponCodes()).toEqual(['SAVE10']);
+    });
+
+    test('should store the cart with the current schema version', () => {
+      saveCart(mockCartProducts);
+
+      const storedCart = JSON.parse(
+        window.localStorage.getItem(CART_STORAGE_KEY) as string
+      );
+      expect(storedCart.version).toBe(CART_STORAGE_VERSION);
+    });
+
+    test('should return an empty cart when nothing was saved', () => {
+      expect(loadCart()).toEqual([]);
+    });
+
+    test('should return an empty cart when the saved data is corrupted', () => {
+      window.localStorage.setItem(CART_STORAGE_KEY, '{not json');
+      expect(loadCart()).toEqual([]);
+
+      window.localStorage.setItem(CART_STORAGE_KEY, '{"products": 1}');
+      expect(loadCart()).toEqual([]);
+    });
+
+    test('should drop malformed lines and keep the rest', () => {
+      const { selectedSize, ...lineWithoutSize } = mockCartProducts[1];
+
+      window.localStorage.setItem(
+        CART_STORAGE_KEY,
+        JSON.stringify({
+          version: CART_STORAGE_VERSION,
+          products: [
+            null,
+            { id: 1 },
+            { ...mockCartProducts[0], quantity: 0 },
+            lineWithoutSize,
+            { ...mockCartProducts[1], currencyId: 'EUR' },
+            mockCartProducts[0],
+          ],
+          savedProducts: [{ ...mockCartProducts[1], price: 'free' }],
+        })
+      );
+
+      expect(loadCart()).toEqual([mockCartProducts[0]]);
+      expect(loadSavedProducts()).toEqual([]);
+    });
+  });
+
+  describe('migrateCart', () => {
+    test('should discard carts saved by a newer schema version', () => {
+      expect(
+        migrateCart({
+          version: CART_STORAGE_VERSION + 1,
+          products: mockCartProducts,
+        })
+      ).toBeUndefined();
+    });
+
+    test('should give v1 lines the size they used to be shown in', () => {
+      const { selectedSize, ...v1Product } = mockCartProducts[0];
+      const migratedCart = migrateCart({
+        version: 1,
+        products: [v1Product as any],
+      });
+
+      expect(migratedCart?.version).toBe(CART_STORAGE_VERSION);
+      expect(migratedCart?.products[0].selectedSize).toBe(
+        v1Product.availableSizes[0]
+      );
+    });
+
+    test('should start v2 carts with nothing saved for later', () => {
+      const migratedCart = migrateCart({
+        version: 2,
+        products: mockCartProducts,
+      });
+
+      expect(migratedCart?.products).toEqual(mockCartProducts);
+      expect(migratedCart?.savedProducts).toEqual([]);
+    });
+
+    test('should start v3 carts with no coupons', () => {
+      const migratedCart = migrateCart({
+        version: 3,
+        products: mockCartProducts,
+        savedProducts: [],
+      });
+
+      expect(migratedCart?.version).toBe(CART_STORAGE_VERSION);
+      expect(migratedCart?.couponCodes).toEqual([]);
+    });
+
+    test('should discard carts without a migration path', () => {
+      expect(migrateCart({ version: 0, products: [] })).toBeUndefined();
+    });
+  });
+
+  describe('reconcileCart', () => {
+    test('should drop lines whose product is no longer in the catalog', () => {
+      const catalog = mockProducts.filter((product) => product.id !== 11);
+
+      expect(reconcileCart(mockCartProducts, catalog)).toEqual([
+        mockCartProducts[0],
+        mockCartProducts[2],
+      ]);
+    });
+
+    test('should drop lines whose size is no longer available', () => {
+      const catalog = [{ ...mockProducts[0], availableSizes: ['S'] }];
+
+      expect(reconcileCart([mockCartProducts[0]], catalog)).toEqual([]);
+    });
+
+    test('should refresh lines with the current catalog data', () => {
+      const catalog = [{ ...mockProducts[0], price: 12 }];
+      const [restoredProduct] = reconcileCart(
+        [{ ...mockCartProducts[0], quantity: 3 }],
+        catalog
+      );
+
+      expect(restoredProduct.price).toBe(12);
+      expect(restoredProduct.quantity).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import {
+  CART_SYNC_CHANNEL,
+  createCartSync,
+  isNewerSnapshot,
+  ICartSnapshot,
+} from '../cart-sync';
+
+import { mockCartProducts } from 'utils/test/mocks';
+
+const createSnapshot = (
+  updatedAt: number,
+  origin: string = 'tab-a'
+): ICartSnapshot => ({
+  products: mockCartProducts,
+  updatedAt,
+  origin,
+});
+
+describe('[services] - cart-sync', () => {
+  describe('isNewerSnapshot', () => {
+    test('should prefer the most recent snapshot', () => {
+      expect(isNewerSnapshot(createSnapshot(2), createSnapshot(1))).toBe(true);
+      expect(isNewerSnapshot(createSnapshot(1), createSnapshot(2))).toBe(false);
+    });
+
+    test('should break ties by origin so every tab picks the same winner', () => {
+      const fromA = createSnapshot(1, 'tab-a');
+      const fromB = createSnapshot(1, 'tab-b');
+
+      expect(isNewerSnapshot(fromB, fromA)).toBe(true);
+      expect(isNewerSnapshot(fromA, fromB)).toBe(false);
+    });
+  });
+
+  describe('createCartSync', () => {
+    const originalBroadcastChannel = (window as any).BroadcastChannel;
+
+    afterEach(() => {
+      (window as any).BroadcastChannel = originalBroadcastChannel;
+    });
+
+    test('should exchange snapshots over BroadcastChannel when available', () => {
+      const channels: any[] = [];
+      (window as any).BroadcastChannel = class {
+        onmessage: ((event: { data: unknown }) => void) | null = null;
+        constructor(public name: string) {
+          channels.push(this);
+        }
+        postMessage(data: unknown) {
+          channels
+            .filter((channel) => channel !== this && channel.name === this.name)
+            .forEach((channel) => channel.onmessage?.({ data }));
+        }
+        close() {}
+      };
+
+      const onSnapshot = jest.fn();
+      const sender = createCartSync(jest.fn());
+      createCartSync(onSnapshot);
+
+      sender.publish(createSnapshot(1));
+
+      expect(onSnapshot).toHaveBeenCalledWith(createSnapshot(1));
+    });
+
+    test('should fall back to storage events', () => {
+      (window as any).BroadcastChannel = undefined;
+
+      const onSnapshot = jest.fn();
+      const sync = createCartSync(onSnapshot);
+
+      sync.publish(createSnapshot(1));
+      const newValue = window.localStorage.getItem(CART_SYNC_CHANNEL);
+      window.dispatchEvent(
+        new StorageEvent('storage', { key: CART_SYNC_CHANNEL, newValue })
+      );
+
+      expect(onSnapshot).toHaveBeenCalledWith(createSnapshot(1));
+
+      sync.close();
+      window.dispatchEvent(
+        new StorageEvent('storage', { key: CART_SYNC_CHANNEL, newValue })
+      );
+      expect(onSnapshot).toHaveBeenCalledTimes(1);
+    });
+
+    test('should ignore unrelated or malformed storage events', () => {
+      (window as any).BroadcastChannel = undefined;
+
+      const onSnapshot = jest.fn();
+      const sync = createCartSync(onSnapshot);
+
+      window.dispatchEvent(
+        new StorageEvent('storage', { key: 'other', newValue: '{}' })
+      );
+      window.dispatchEvent(
+        new StorageEvent('storage', {
+          key: CART_SYNC_CHANNEL,
+          newValue: '{broken',
+        })
+      );
+      window.dispatchEvent(
+        new StorageEvent('storage', {
+          key: CART_SYNC_CHANNEL,
+          newValue: JSON.stringify({
+            ...createSnapshot(1),
+            products: [mockCartProducts[0], null],
+          }),
+        })
+      );
+      window.dispatchEvent(
+        new StorageEvent('storage', {
+          key: CART_SYNC_CHANNEL,
+          newValue: JSON.stringify({
+            ...createSnapshot(2),
+            savedProducts: [{ id: 1 }],
+          }),
+        })
+      );
+
+      expect(onSnapshot).not.toHaveBeenCalled();
+      sync.close();
+    });
+  });
+});
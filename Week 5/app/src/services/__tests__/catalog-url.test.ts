@@ -0,0 +1,82 @@
+import {
+  createCatalogHistory,
+  parseCatalogView,
+  serializeCatalogView,
+} from '../catalog-url';
+import { ICatalogView } from 'models';
+
+const view: ICatalogView = {
+  filters: { size: ['M', 'L'], freeShipping: ['free'] },
+  sort: 'priceAsc',
+  query: 'black tee',
+};
+
+describe('[services] - catalog-url', () => {
+  test('should serialize a view into a query string', () => {
+    expect(serializeCatalogView(view)).toBe(
+      '?size=M&size=L&freeShipping=free&sort=priceAsc&q=black+tee'
+    );
+  });
+
+  test('should leave defaults out of the query string', () => {
+    expect(
+      serializeCatalogView({
+        filters: { size: [] },
+        sort: 'featured',
+        query: ' ',
+      })
+    ).toBe('');
+  });
+
+  test('should parse what it serialized', () => {
+    expect(parseCatalogView(serializeCatalogView(view))).toEqual(view);
+    expect(parseCatalogView('')).toEqual({
+      filters: {},
+      sort: 'featured',
+      query: '',
+    });
+  });
+
+  test('should ignore unknown parameters and sorts', () => {
+    expect(parseCatalogView('?color=red&sort=cheapest&style=Wine')).toEqual({
+      filters: { style: ['Wine'] },
+      sort: 'featured',
+      query: '',
+    });
+  });
+
+  test('should push and replace history entries', () => {
+    const history = createCatalogHistory(jest.fn());
+    const length = window.history.length;
+
+    history.push(view);
+    expect(window.location.search).toBe(serializeCatalogView(view));
+    expect(window.history.length).toBe(length + 1);
+
+    history.push({ ...view, query: 'black' }, true);
+    expect(window.location.search).toContain('q=black');
+    expect(window.history.length).toBe(length + 1);
+
+    history.close();
+  });
+
+  test('should report the view the browser navigates back to', async () => {
+    const onChange = jest.fn();
+    const history = createCatalogHistory(onChange);
+
+    history.push(view);
+    window.history.back();
+
+    await new Promise((resolve) =>
+      window.addEventListener('popstate', resolve)
+    );
+
+    expect(onChange).toHaveBeenCalledWith({
+      filters: {},
+      sort: 'featured',
+      query: '',
+    });
+
+    history.close();
+  });
+});
@@ -0,0 +1,27 @@
+import { money } from 'utils/money';
+import { convertMoney, getCartCurrencyId } from '../currency';
+
+import { mockCartProducts } from 'utils/test/mocks';
+
+describe('[services] - currency', () => {
+  test('should convert through the base currency', () => {
+    const price = money(10.9, 'USD');
+
+    expect(convertMoney(price, 'USD')).toBe(price);
+    expect(convertMoney(price, 'EUR')).toEqual(money(10.03, 'EUR'));
+    expect(convertMoney(price, 'JPY')).toEqual(money(1648, 'JPY'));
+    expect(convertMoney(price, 'KWD')).toEqual(money(3.346, 'KWD'));
+    expect(convertMoney(money(50.5, 'BRL'), 'EUR')).toEqual(money(9.2, 'EUR'));
+  });
+
+  test('should refuse currencies without an exchange rate', () => {
+    expect(() => convertMoney(money(10, 'USD'), 'XYZ')).toThrow(
+      'No exchange rate from USD to XYZ'
+    );
+  });
+
+  test('should take the cart currency from its products', () => {
+    expect(getCartCurrencyId(mockCartProducts)).toBe('USD');
+    expect(getCartCurrencyId([])).toBe('USD');
+  });
+});
@@ -0,0 +1,134 @@
+import {
+  FREE_SHIPPING,
+  filterCatalog,
+  getFacets,
+  toggleFacetValue,
+} from '../facets';
+import { IFacet } from 'models';
+
+import { mockProducts } from 'utils/test/mocks';
+
+const [groovy, cactus, skater] = mockProducts;
+
+const getCounts = (facets: IFacet[], id: IFacet['id']) =>
+  facets
+    .find((facet: IFacet) => facet.id === id)
+    ?.options.map(({ value, count }) => [value, count]);
+
+describe('[services] - facets', () => {
+  describe('filterCatalog', () => {
+    test('should return the whole catalog without a selection', () => {
+      expect(filterCatalog(mockProducts, {})).toEqual(mockProducts);
+      expect(filterCatalog(mockProducts, { size: [] })).toEqual(mockProducts);
+    });
+
+    test('should match any option within a facet', () => {
+      expect(filterCatalog(mockProducts, { size: ['S', 'ML'] })).toEqual([
+        groovy,
+        cactus,
+      ]);
+    });
+
+    test('should match every facet with a selection', () => {
+      expect(
+        filterCatalog(mockProducts, {
+          size: ['XL'],
+          freeShipping: [FREE_SHIPPING],
+        })
+      ).toEqual([groovy]);
+      expect(
+        filterCatalog(mockProducts, { size: ['XL'], price: ['25-50'] })
+      ).toEqual([skater]);
+    });
+  });
+
+  describe('getFacets', () => {
+    test('should take the options from the catalog', () => {
+      const facets = getFacets(mockProducts, {});
+
+      expect(facets.map(({ id }) => id)).toEqual([
+        'size',
+        'style',
+        'price',
+        'freeShipping',
+      ]);
+      expect(getCounts(facets, 'size')).toEqual([
+        ['S', 1],
+        ['ML', 1],
+        ['L', 2],
+        ['XL', 2],
+        ['XXL', 1],
+        ['X', 1],
+      ]);
+      expect(getCounts(facets, 'style')).toEqual([
+        ['Tony Hawk', 1],
+        ['White T-shirt', 1],
+        ['Wine', 1],
+      ]);
+      expect(getCounts(facets, 'freeShipping')).toEqual([[FREE_SHIPPING, 2]]);
+    });
+
+    test('should bucket prices into ranges', () => {
+      const [price] = getFacets(mockProducts, {}).filter(
+        ({ id }) => id === 'price'
+      );
+
+      expect(price.options).toEqual([
+        {
+          value: '0-25',
+          label: '0 – 25',
+          count: 2,
+          range: [
+            { amount: 0, currencyId: 'USD' },
+            { amount: 2500, currencyId: 'USD' },
+          ],
+        },
+        {
+          value: '25-50',
+          label: '25 – 50',
+          count: 1,
+          range: [
+            { amount: 2500, currencyId: 'USD' },
+            { amount: 5000, currencyId: 'USD' },
+          ],
+        },
+      ]);
+    });
+
+    test('should count each facet against the selections in the others', () => {
+      const facets = getFacets(mockProducts, {
+        size: ['XL'],
+        freeShipping: [FREE_SHIPPING],
+      });
+
+      // Sizes ignore their own selection, so other sizes stay reachable.
+      expect(getCounts(facets, 'size')).toEqual([
+        ['S', 1],
+        ['ML', 1],
+        ['L', 2],
+        ['XL', 1],
+        ['XXL', 1],
+        ['X', 1],
+      ]);
+      expect(getCounts(facets, 'freeShipping')).toEqual([[FREE_SHIPPING, 1]]);
+      expect(getCounts(facets, 'price')).toEqual([
+        ['0-25', 1],
+        ['25-50', 0],
+      ]);
+    });
+
+    test('should have no facets for an empty catalog', () => {
+      expect(getFacets([], {})).toEqual([]);
+    });
+  });
+
+  test('should toggle an option in and out of the selection', () => {
+    const selection = toggleFacetValue({ size: ['M'] }, 'style', 'Wine');
+
+    expect(selection).toEqual({ size: ['M'], style: ['Wine'] });
+    expect(toggleFacetValue(selection, 'size', 'M')).toEqual({
+      size: [],
+      style: ['Wine'],
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import {
+  getInstallmentLimit,
+  getInstallmentPlan,
+  getInstallmentPlans,
+  getMonthlyRate,
+  selectInstallmentPlan,
+} from '../installments';
+import { sumMoney, splitMoney } from 'utils/money';
+
+import { mockCartProducts } from 'utils/test/mocks';
+
+const [groovy, cactus, skater] = mockCartProducts;
+const usd = (amount: number) => ({ amount, currencyId: 'USD' });
+
+describe('[services] - installments', () => {
+  describe('getInstallmentLimit', () => {
+    test('should use the most restrictive line', () => {
+      expect(getInstallmentLimit([groovy, skater])).toBe(9);
+      expect(getInstallmentLimit(mockCartProducts)).toBe(3);
+      expect(getInstallmentLimit([])).toBe(0);
+    });
+
+    test('should only allow paying in full for products without installments', () => {
+      expect(
+        getInstallmentLimit([skater, { ...cactus, installments: 0 }])
+      ).toBe(1);
+    });
+  });
+
+  test('should pick the rate of the tier the count falls in', () => {
+    expect(getMonthlyRate(1)).toBe(0);
+    expect(getMonthlyRate(3)).toBe(0);
+    expect(getMonthlyRate(4)).toBe(0.0149);
+    expect(getMonthlyRate(12)).toBe(0.0249);
+  });
+
+  describe('getInstallmentPlan', () => {
+    test('should split interest-free plans without extra cost', () => {
+      expect(getInstallmentPlan(usd(5005), 3)).toEqual({
+        count: 3,
+        monthlyRate: 0,
+        installment: usd(1669),
+        payments: [usd(1669), usd(1668), usd(1668)],
+        interest: usd(0),
+        total: usd(5005),
+      });
+    });
+
+    test('should add interest on interest-bearing plans', () => {
+      const plan = getInstallmentPlan(usd(10000), 6);
+
+      // Fixed payment of 100 * 0.0149 / (1 - 1.0149^-6) = 17.5465...
+      expect(plan.installment).toEqual(usd(1755));
+      expect(plan.total).toEqual(usd(10528));
+      expect(plan.interest).toEqual(usd(528));
+    });
+
+    test.each([2, 3, 5, 7, 9, 12])(
+      'should add %i installments back up to the plan total',
+      (count: number) => {
+        const plan = getInstallmentPlan(usd(1090), count);
+
+        expect(sumMoney(splitMoney(plan.total, count), 'USD')).toEqual(
+          plan.total
+        );
+        expect(sumMoney(plan.payments, 'USD')).toEqual(plan.total);
+        expect(plan.installment).toEqual(splitMoney(plan.total, count)[0]);
+      }
+    );
+  });
+
+  describe('getInstallmentPlans', () => {
+    test('should offer one plan per count up to the limit', () => {
+      const plans = getInstallmentPlans(usd(5005), 4);
+
+      expect(plans.map(({ count }) => count)).toEqual([1, 2, 3, 4]);
+      expect(getInstallmentPlans(usd(5005), 20)).toHaveLength(12);
+    });
+
+    test('should fall back to the longest plan still available', () => {
+      const plans = getInstallmentPlans(usd(5005), 3);
+
+      expect(selectInstallmentPlan(plans, 2)?.count).toBe(2);
+      expect(selectInstallmentPlan(plans, 9)?.count).toBe(3);
+      expect(selectInstallmentPlan([], 1)).toBeUndefined();
+    });
+  });
+});
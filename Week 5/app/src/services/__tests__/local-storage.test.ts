@@ -0,0 +1,39 @@
+import {
+  readStorage,
+  reconcileWithCatalog,
+  writeStorage,
+} from '../local-storage';
+
+import { mockProducts } from 'utils/test/mocks';
+
+const [groovy, cactus] = mockProducts;
+
+describe('[services] - local-storage', () => {
+  test('should read back what was written', () => {
+    writeStorage('key', { products: [groovy] });
+
+    expect(readStorage('key')).toEqual({ products: [groovy] });
+    expect(readStorage('missing')).toBeUndefined();
+  });
+
+  test('should read unparsable data as nothing', () => {
+    window.localStorage.setItem('key', '{not json');
+
+    expect(readStorage('key')).toBeUndefined();
+  });
+
+  test('should drop products that left the catalog or that restore rejects', () => {
+    const restore = jest.fn((storedProduct, catalogProduct) =>
+      catalogProduct.id === cactus.id ? undefined : catalogProduct
+    );
+
+    expect(
+      reconcileWithCatalog(
+        [{ id: -1 }, { id: groovy.id }, { id: cactus.id }],
+        mockProducts,
+        restore
+      )
+    ).toEqual([groovy]);
+    expect(restore).toHaveBeenCalledTimes(2);
+  });
+});
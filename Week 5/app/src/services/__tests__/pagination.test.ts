@@ -0,0 +1,61 @@
+import {
+  getPageCount,
+  getPageWindow,
+  getPaginationMode,
+  getShownRange,
+  paginate,
+} from '../pagination';
+
+const items = Array.from({ length: 25 }, (_, index) => index + 1);
+
+describe('[services] - pagination', () => {
+  test('should read the mode from the environment', () => {
+    expect(getPaginationMode({})).toBe('pages');
+    expect(getPaginationMode({ REACT_APP_PAGINATION_MODE: 'infinite' })).toBe(
+      'infinite'
+    );
+    expect(getPaginationMode({ REACT_APP_PAGINATION_MODE: 'endless' })).toBe(
+      'pages'
+    );
+  });
+
+  test('should count at least one page', () => {
+    expect(getPageCount(25, 10)).toBe(3);
+    expect(getPageCount(20, 10)).toBe(2);
+    expect(getPageCount(0, 10)).toBe(1);
+  });
+
+  test('should show one page at a time in pages mode', () => {
+    expect(getShownRange(3, 10, 25, 'pages')).toEqual([21, 25]);
+    expect(paginate(items, 2, 10, 'pages')).toEqual(items.slice(10, 20));
+  });
+
+  test('should keep the earlier pages in infinite mode', () => {
+    expect(getShownRange(2, 10, 25, 'infinite')).toEqual([1, 20]);
+    expect(paginate(items, 2, 10, 'infinite')).toEqual(items.slice(0, 20));
+  });
+
+  test('should show nothing when there are no items', () => {
+    expect(getShownRange(1, 10, 0, 'pages')).toEqual([0, 0]);
+    expect(paginate([], 1, 10, 'pages')).toEqual([]);
+  });
+
+  test('should show the pages around the current one and the ends', () => {
+    expect(getPageWindow(1, 5)).toEqual([1, 2, 3, 4, 5]);
+    expect(getPageWindow(1, 7)).toEqual([1, 2, 3, 'gap', 7]);
+    expect(getPageWindow(5, 7)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(getPageWindow(10, 300)).toEqual([
+      1,
+      'gap',
+      8,
+      9,
+      10,
+      11,
+      12,
+      'gap',
+      300,
+    ]);
+    expect(getPageWindow(2, 300)).toEqual([1, 2, 3, 4, 'gap', 300]);
+    expect(getPageWindow(299, 300)).toEqual([1, 'gap', 297, 298, 299, 300]);
+  });
+});
@@ -0,0 +1,90 @@
+import { parseProductFeed, validateProduct } from '../product-feed';
+
+import { mockProducts } from 'utils/test/mocks';
+
+const [groovy, cactus, skater] = mockProducts;
+
+describe('[services] - product-feed', () => {
+  describe('validateProduct', () => {
+    test('should accept a complete product', () => {
+      expect(validateProduct(groovy)).toBeUndefined();
+      expect(validateProduct({ ...groovy, description: '' })).toBeUndefined();
+    });
+
+    test('should name the field that is missing or malformed', () => {
+      const { availableSizes, ...withoutSizes } = groovy;
+
+      expect(validateProduct(withoutSizes)).toBe('missing availableSizes');
+      expect(validateProduct({ ...groovy, availableSizes: [] })).toBe(
+        'availableSizes should be a non-empty list of sizes'
+      );
+      expect(validateProduct({ ...groovy, price: '10.90' })).toBe(
+        'price should be a positive amount'
+      );
+      expect(validateProduct({ ...groovy, title: ' ' })).toBe(
+        'title should be a non-empty string'
+      );
+      expect(validateProduct(null)).toBe('not an object');
+    });
+
+    test('should reject currencies without an exchange rate', () => {
+      expect(validateProduct({ ...groovy, currencyId: 'GBP' })).toBe(
+        'currencyId should be a supported currency code'
+      );
+      expect(validateProduct({ ...groovy, currencyId: 'US$' })).toBe(
+        'currencyId should be a supported currency code'
+      );
+    });
+  });
+
+  describe('parseProductFeed', () => {
+    test('should keep valid products and reject the rest with a reason', () => {
+      const broken = { ...cactus, isFreeShipping: 'yes' };
+      const feed = parseProductFeed({
+        products: [groovy, broken, skater, { ...skater, title: 'Copy' }],
+      });
+
+      expect(feed.products).toEqual([groovy, skater]);
+      expect(feed.rejected).toEqual([
+        {
+          index: 1,
+          record: broken,
+          reason: 'isFreeShipping should be a boolean',
+        },
+        {
+          index: 3,
+          record: { ...skater, title: 'Copy' },
+          reason: `duplicate id ${skater.id}`,
+        },
+      ]);
+    });
+
+    test('should reject products priced in another currency than the catalog', () => {
+      const inEuros = { ...cactus, currencyId: 'EUR' };
+      const feed = parseProductFeed({ products: [groovy, inEuros] });
+
+      expect(feed.products).toEqual([groovy]);
+      expect(feed.rejected).toEqual([
+        {
+          index: 1,
+          record: inEuros,
+          reason: "currencyId EUR differs from the catalog's USD",
+        },
+      ]);
+    });
+
+    test('should read products keyed by index', () => {
+      expect(
+        parseProductFeed({ products: { 0: groovy, 2: cactus } }).products
+      ).toEqual([groovy, cactus]);
+    });
+
+    test('should return an empty feed when there is no product list', () => {
+      const empty = { products: [], rejected: [] };
+
+      expect(parseProductFeed(undefined)).toEqual(empty);
+      expect(parseProductFeed({})).toEqual(empty);
+      expect(parseProductFeed({ products: 'none' })).toEqual(empty);
+    });
+  });
+});
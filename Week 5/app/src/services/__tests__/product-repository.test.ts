@@ -0,0 +1,70 @@
+import axios from 'axios';
+
+import {
+  createDefaultProductRepository,
+  createMemoryProductRepository,
+  createRestProductRepository,
+  createStaticProductRepository,
+  FIREBASE_BASE_URL,
+} from '../product-repository';
+
+import { mockProducts } from 'utils/test/mocks';
+
+describe('[services] - product-repository', () => {
+  test('should read the bundled catalog', async () => {
+    const feed = (await createStaticProductRepository().getProductFeed()) as {
+      products: unknown[];
+    };
+
+    expect(feed.products.length).toBeGreaterThan(0);
+  });
+
+  test('should fetch the feed from the configured base URL', async () => {
+    const get = jest
+      .spyOn(axios, 'get')
+      .mockResolvedValue({ data: { products: mockProducts } });
+
+    const feed = await createRestProductRepository(
+      'http://localhost:3001/'
+    ).getProductFeed();
+
+    expect(get).toHaveBeenCalledWith('http://localhost:3001/products.json');
+    expect(feed).toEqual({ products: mockProducts });
+    get.mockRestore();
+  });
+
+  test('should serve fixtures from memory', async () => {
+    const error = new Error('offline');
+
+    await expect(
+      createMemoryProductRepository(mockProducts).getProductFeed()
+    ).resolves.toEqual({ products: mockProducts });
+    await expect(
+      createMemoryProductRepository([], error).getProductFeed()
+    ).rejects.toBe(error);
+  });
+
+  test('should pick the source from the environment', async () => {
+    const get = jest
+      .spyOn(axios, 'get')
+      .mockResolvedValue({ data: { products: [] } });
+
+    await createDefaultProductRepository({
+      NODE_ENV: 'production',
+    }).getProductFeed();
+    expect(get).toHaveBeenLastCalledWith(`${FIREBASE_BASE_URL}/products.json`);
+
+    await createDefaultProductRepository({
+      NODE_ENV: 'production',
+      REACT_APP_PRODUCTS_API_URL: 'http://localhost:3001',
+    }).getProductFeed();
+    expect(get).toHaveBeenLastCalledWith('http://localhost:3001/products.json');
+
+    get.mockClear();
+    await createDefaultProductRepository({
+      NODE_ENV: 'development',
+    }).getProductFeed();
+    expect(get).not.toHaveBeenCalled();
+    get.mockRestore();
+  });
+});
@@ -0,0 +1,52 @@
+import { productSorts, sortProducts } from '../product-sort';
+import { IProduct } from 'models';
+
+import { mockProducts } from 'utils/test/mocks';
+
+const [groovy, cactus, skater] = mockProducts;
+const ids = (products: IProduct[]) => products.map(({ id }) => id);
+
+describe('[services] - product-sort', () => {
+  test('should keep the catalog order by default', () => {
+    expect(sortProducts(mockProducts, 'featured')).toEqual(mockProducts);
+  });
+
+  test('should sort by price', () => {
+    const products = [skater, groovy, cactus];
+
+    expect(ids(sortProducts(products, 'priceAsc'))).toEqual([0, 11, 4]);
+    expect(ids(sortProducts(products, 'priceDesc'))).toEqual([4, 11, 0]);
+  });
+
+  test('should put the newest products first', () => {
+    expect(ids(sortProducts(mockProducts, 'newest'))).toEqual([11, 4, 0]);
+  });
+
+  test('should sort by most installments', () => {
+    expect(ids(sortProducts(mockProducts, 'installments'))).toEqual([4, 0, 11]);
+  });
+
+  test('should put free shipping first and keep the order of ties', () => {
+    expect(ids(sortProducts([skater, cactus, groovy], 'freeShipping'))).toEqual(
+      [11, 0, 4]
+    );
+  });
+
+  test('should not change the products it is given', () => {
+    const products = [skater, groovy];
+
+    sortProducts(products, 'priceAsc');
+    expect(products).toEqual([skater, groovy]);
+  });
+
+  test('should offer every sort', () => {
+    expect(productSorts.map(({ id }) => id)).toEqual([
+      'featured',
+      'priceAsc',
+      'priceDesc',
+      'newest',
+      'installments',
+      'freeShipping',
+    ]);
+  });
+});
@@ -0,0 +1,38 @@
+import {
+  createDefaultProductRepository,
+  createMemoryProductRepository,
+} from '../product-repository';
+import { getProducts, setProductRepository } from '../products';
+
+import { mockProducts } from 'utils/test/mocks';
+
+const [groovy, cactus] = mockProducts;
+
+describe('[services] - products', () => {
+  afterEach(() => {
+    setProductRepository(createDefaultProductRepository());
+  });
+
+  test('should return the valid products and log the rejected ones', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    setProductRepository(
+      createMemoryProductRepository([
+        groovy,
+        { ...cactus, availableSizes: undefined },
+      ])
+    );
+
+    await expect(getProducts()).resolves.toEqual([groovy]);
+    expect(warn).toHaveBeenCalledWith(
+      'Skipped product #1 in the feed: availableSizes should be a non-empty list of sizes'
+    );
+    warn.mockRestore();
+  });
+
+  test('should pass source errors on to the caller', async () => {
+    const error = new Error('offline');
+    setProductRepository(createMemoryProductRepository([], error));
+
+    await expect(getProducts()).rejects.toBe(error);
+  });
+});
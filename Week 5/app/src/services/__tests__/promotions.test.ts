@@ -0,0 +1,209 @@
+import { ICartProduct } from 'models';
+import {
+  applyPromotions,
+  describePromotion,
+  IPromotion,
+  normalizeCouponCode,
+  validateCoupon,
+} from '../promotions';
+
+import { mockCartProducts } from 'utils/test/mocks';
+import formatPrice from 'utils/formatPrice';
+
+const [groovy, cactus, skater] = mockCartProducts;
+
+const usd = (amount: number) => ({ amount, currencyId: 'USD' });
+
+const withQuantity = (product: ICartProduct, quantity: number) => ({
+  ...product,
+  quantity,
+});
+
+const percentage: IPromotion = {
+  code: 'TEN',
+  description: '10% off',
+  rule: { type: 'percentage', percent: 10 },
+};
+const fixed: IPromotion = {
+  code: 'FIVE',
+  description: '{amount} off',
+  rule: { type: 'fixed', amount: usd(500) },
+  minSpend: usd(3000),
+};
+const buyTwoGetOne: IPromotion = {
+  code: '3FOR2',
+  description: 'Buy 2, get 1',
+  rule: { type: 'buyXGetY', buy: 2, get: 1 },
+};
+const freeShipping: IPromotion = {
+  code: 'SHIP',
+  description: 'Free shipping',
+  rule: { type: 'freeShipping' },
+};
+const automatic: IPromotion = {
+  description: 'Spend {minSpend}, save {amount}',
+  rule: { type: 'fixed', amount: usd(1000) },
+  minSpend: usd(10000),
+};
+
+const available = [percentage, fixed, buyTwoGetOne, freeShipping, automatic];
+
+describe('[services] - promotions', () => {
+  describe('applyPromotions', () => {
+    test('should return the plain subtotal without coupons', () => {
+      expect(applyPromotions(mockCartProducts, [], available)).toEqual({
+        subtotalPrice: usd(5005),
+        discounts: [],
+        discountTotal: usd(0),
+        totalPrice: usd(5005),
+        hasFreeShipping: false,
+      });
+    });
+
+    test('should take a percentage off the subtotal', () => {
+      const result = applyPromotions(mockCartProducts, ['ten'], available);
+
+      expect(result.discounts).toEqual([
+        {
+          code: 'TEN',
+          description: '10% off',
+          descriptionPrices: {},
+          amount: usd(501),
+        },
+      ]);
+      expect(result.totalPrice).toEqual(usd(4504));
+    });
+
+    test('should only apply fixed discounts above their minimum spend', () => {
+      expect(applyPromotions([groovy], ['FIVE'], available).discounts).toEqual(
+        []
+      );
+      expect(
+        applyPromotions(mockCartProducts, ['FIVE'], available).totalPrice
+      ).toEqual(usd(4505));
+    });
+
+    test('should give the cheapest units away on buy X get Y', () => {
+      const products = [withQuantity(skater, 2), groovy, cactus];
+
+      expect(
+        applyPromotions(products, ['3FOR2'], available).discounts[0].amount
+      ).toEqual(usd(1090));
+      expect(applyPromotions([skater], ['3FOR2'], available).discounts).toEqual(
+        []
+      );
+    });
+
+    test('should stack promotions in a fixed order', () => {
+      const result = applyPromotions(
+        [withQuantity(skater, 3)],
+        ['FIVE', 'TEN', '3FOR2'],
+        available
+      );
+
+      expect(result.discounts.map(({ code }) => code)).toEqual([
+        '3FOR2',
+        'TEN',
+        'FIVE',
+      ]);
+      // 77.70 - 25.90 = 51.80, -10% = 46.62, -5 = 41.62
+      expect(result.totalPrice).toEqual(usd(4162));
+      expect(result.discountTotal).toEqual(usd(3608));
+    });
+
+    test('should apply automatic promotions without a code', () => {
+      const result = applyPromotions([withQuantity(skater, 4)], [], available);
+
+      expect(result.discounts).toEqual([
+        {
+          code: undefined,
+          description: 'Spend {minSpend}, save {amount}',
+          descriptionPrices: { minSpend: usd(10000), amount: usd(1000) },
+          amount: usd(1000),
+        },
+      ]);
+    });
+
+    test('should never discount below zero', () => {
+      const result = applyPromotions(
+        [groovy],
+        ['BIG'],
+        [
+          {
+            code: 'BIG',
+            description: '{amount} off',
+            rule: { type: 'fixed', amount: usd(5000) },
+          },
+        ]
+      );
+
+      expect(result.discounts[0].amount).toEqual(usd(1090));
+      expect(result.totalPrice).toEqual(usd(0));
+    });
+
+    test('should waive shipping with a free shipping coupon', () => {
+      expect(
+        applyPromotions([skater], ['SHIP'], available).hasFreeShipping
+      ).toBe(true);
+      expect(applyPromotions([skater], [], available).hasFreeShipping).toBe(
+        false
+      );
+      expect(applyPromotions([groovy], [], available).hasFreeShipping).toBe(
+        true
+      );
+    });
+  });
+
+  describe('describePromotion', () => {
+    test('should format the amounts it names', () => {
+      expect(describePromotion(automatic, formatPrice)).toBe(
+        'Spend $100.00, save $10.00'
+      );
+      expect(describePromotion(percentage, formatPrice)).toBe('10% off');
+    });
+  });
+
+  describe('validateCoupon', () => {
+    test('should name the minimum spend as an amount to format', () => {
+      expect(validateCoupon('five', [groovy], [], available)).toEqual({
+        isValid: false,
+        message: '"FIVE" needs a subtotal of at least {minSpend}.',
+        messagePrices: { minSpend: usd(3000) },
+      });
+    });
+
+    test('should accept a valid code in any case', () => {
+      expect(validateCoupon(' ten ', mockCartProducts, [], available)).toEqual({
+        isValid: true,
+        promotion: percentage,
+      });
+      expect(normalizeCouponCode(' ten ')).toBe('TEN');
+    });
+
+    test.each([
+      ['', [], mockCartProducts, 'Enter a coupon code.'],
+      ['nope', [], mockCartProducts, '"NOPE" is not a valid coupon code.'],
+      ['ten', ['TEN'], mockCartProducts, '"TEN" has already been applied.'],
+      [
+        '3for2',
+        [],
+        [groovy],
+        '"3FOR2" does not apply to the products in your cart.',
+      ],
+      [
+        'ship',
+        [],
+        [groovy, cactus],
+        '"SHIP" does not apply to the products in your cart.',
+      ],
+    ])(
+      'should reject "%s"',
+      (code: string, applied: string[], products: ICartProduct[], message) => {
+        expect(validateCoupon(code, products, applied, available)).toEqual({
+          isValid: false,
+          message,
+        });
+      }
+    );
+  });
+});
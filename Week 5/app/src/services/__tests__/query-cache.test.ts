@@ -0,0 +1,126 @@
+import { createQuery, exponentialBackoff } from '../query-cache';
+
+const flushPromises = () => new Promise((resolve) => setTimeout(resolve));
+
+describe('[services] - query-cache', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should share one request between concurrent fetches', async () => {
+    const fetcher = jest.fn().mockResolvedValue(['groovy']);
+    const query = createQuery(fetcher);
+
+    const [first, second] = await Promise.all([query.fetch(), query.fetch()]);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(first).toBe(second);
+  });
+
+  test('should serve fresh data without fetching again', async () => {
+    const fetcher = jest.fn().mockResolvedValue(['groovy']);
+    const query = createQuery(fetcher, { ttl: 1000 });
+
+    await query.fetch();
+    await expect(query.fetch()).resolves.toEqual(['groovy']);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  test('should serve stale data while revalidating it', async () => {
+    jest.useFakeTimers('modern');
+    const fetcher = jest
+      .fn()
+      .mockResolvedValueOnce(['groovy'])
+      .mockResolvedValueOnce(['groovy', 'cactus']);
+    const query = createQuery(fetcher, { ttl: 1000 });
+    const listener = jest.fn();
+    query.subscribe(listener);
+
+    await query.fetch();
+    jest.advanceTimersByTime(1000);
+
+    const cached = query.fetch();
+    expect(query.getState()).toMatchObject({
+      data: ['groovy'],
+      isFetching: true,
+    });
+
+    await expect(cached).resolves.toEqual(['groovy']);
+    expect(query.getState()).toMatchObject({
+      data: ['groovy', 'cactus'],
+      isFetching: false,
+    });
+    expect(listener).toHaveBeenLastCalledWith(query.getState());
+  });
+
+  test('should keep stale data when revalidating fails', async () => {
+    const error = new Error('offline');
+    const fetcher = jest
+      .fn()
+      .mockResolvedValueOnce(['groovy'])
+      .mockRejectedValueOnce(error);
+    const query = createQuery(fetcher, { ttl: 0 });
+
+    await query.fetch();
+    await expect(query.fetch()).resolves.toEqual(['groovy']);
+    await flushPromises();
+
+    expect(query.getState()).toMatchObject({
+      data: ['groovy'],
+      error,
+      isFetching: false,
+    });
+  });
+
+  test('should retry failed requests after a delay', async () => {
+    const error = new Error('offline');
+    const fetcher = jest
+      .fn()
+      .mockRejectedValueOnce(error)
+      .mockRejectedValueOnce(error)
+      .mockResolvedValueOnce(['groovy']);
+    const retryDelay = jest.fn().mockReturnValue(0);
+    const query = createQuery(fetcher, { retries: 2, retryDelay });
+
+    await expect(query.fetch()).resolves.toEqual(['groovy']);
+    expect(fetcher).toHaveBeenCalledTimes(3);
+    expect(retryDelay.mock.calls).toEqual([[0], [1]]);
+  });
+
+  test('should give up once the retries run out', async () => {
+    const error = new Error('offline');
+    const fetcher = jest.fn().mockRejectedValue(error);
+    const query = createQuery(fetcher, { retries: 1, retryDelay: () => 0 });
+
+    await expect(query.fetch()).rejects.toBe(error);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    expect(query.getState()).toMatchObject({ error, isFetching: false });
+  });
+
+  test('should back off exponentially up to 30 seconds', () => {
+    expect([0, 1, 2, 10].map(exponentialBackoff)).toEqual([
+      1000, 2000, 4000, 30000,
+    ]);
+  });
+
+  test('should cold load again after being invalidated', async () => {
+    let resolveFirst: (data: string[]) => void = () => undefined;
+    const fetcher = jest
+      .fn()
+      .mockReturnValueOnce(
+        new Promise<string[]>((resolve) => (resolveFirst = resolve))
+      )
+      .mockResolvedValueOnce(['cactus']);
+    const query = createQuery(fetcher);
+
+    const staleRequest = query.fetch();
+    query.invalidate();
+    await expect(query.fetch()).resolves.toEqual(['cactus']);
+
+    // The request from before invalidate() doesn't overwrite the new data.
+    resolveFirst(['groovy']);
+    await staleRequest;
+    expect(query.getState().data).toEqual(['cactus']);
+  });
+});
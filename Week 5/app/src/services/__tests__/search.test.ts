@@ -0,0 +1,90 @@
+import {
+  createSearchIndex,
+  getEditDistance,
+  highlightText,
+  ISearchResult,
+  searchProducts,
+  tokenize,
+} from '../search';
+
+import { mockProducts } from 'utils/test/mocks';
+
+const index = createSearchIndex(mockProducts);
+const search = (query: string) =>
+  searchProducts(index, query).map(({ product }: ISearchResult) => product.id);
+
+describe('[services] - search', () => {
+  test('should tokenize without case or accents', () => {
+    expect(tokenize('Camisetá T-Shirt  Preta')).toEqual([
+      'camiseta',
+      't',
+      'shirt',
+      'preta',
+    ]);
+  });
+
+  test('should measure the edit distance between words', () => {
+    expect(getEditDistance('shirt', 'shirt')).toBe(0);
+    expect(getEditDistance('shrit', 'shirt')).toBe(2);
+    expect(getEditDistance('sweatshrt', 'sweatshirt')).toBe(1);
+    expect(getEditDistance('cactus', 'groovy', 2)).toBe(3);
+  });
+
+  test('should find nothing for an empty query', () => {
+    expect(searchProducts(index, '  ')).toEqual([]);
+  });
+
+  test('should search the title, style and description', () => {
+    expect(search('groovy')).toEqual([0]);
+    expect(search('wine')).toEqual([11]);
+    expect(search('jogador')).toEqual([4]);
+  });
+
+  test('should tolerate typos', () => {
+    expect(search('sweatshrt')).toEqual([4]);
+    expect(search('cactos')).toEqual([11]);
+  });
+
+  test('should not fuzzy match short words', () => {
+    expect(search('wit')).toEqual([]);
+  });
+
+  test('should match words the shopper is still typing', () => {
+    expect(search('ska')).toEqual([4]);
+  });
+
+  test('should need every word of the query to match', () => {
+    expect(search('white cactus')).toEqual([11]);
+  });
+
+  test('should rank title matches above style matches', () => {
+    const styledSkater = {
+      ...mockProducts[0],
+      title: 'Plain',
+      style: 'Skater',
+    };
+
+    expect(
+      searchProducts(
+        createSearchIndex([styledSkater, mockProducts[2]]),
+        'skater'
+      ).map(({ product }: ISearchResult) => product.id)
+    ).toEqual([4, 0]);
+  });
+
+  test('should report the words that matched', () => {
+    const [result] = searchProducts(index, 'sweatshrt blak');
+
+    expect(result.matches).toEqual(['sweatshirt', 'black']);
+  });
+
+  test('should split text into highlighted runs', () => {
+    expect(highlightText('Skater Black Sweatshirt', ['black'])).toEqual([
+      { text: 'Skater', isMatch: false },
+      { text: ' ', isMatch: false },
+      { text: 'Black', isMatch: true },
+      { text: ' ', isMatch: false },
+      { text: 'Sweatshirt', isMatch: false },
+    ]);
+  });
+});
@@ -0,0 +1,73 @@
+import {
+  getDeliveryEstimate,
+  getShippingMethod,
+  getShippingQuote,
+  getShippingRegion,
+} from '../shipping';
+
+import { mockCartProducts } from 'utils/test/mocks';
+
+const usd = (amount: number) => ({ amount, currencyId: 'USD' });
+
+const [groovy, cactus, skater] = mockCartProducts;
+const standard = getShippingMethod('standard')!;
+const express = getShippingMethod('express')!;
+
+describe('[services] - shipping', () => {
+  describe('getShippingRegion', () => {
+    test('should map countries to their region', () => {
+      expect(getShippingRegion('Portugal')).toBe('europe');
+      expect(getShippingRegion('Brazil')).toBe('south-america');
+      expect(getShippingRegion('Canada')).toBe('north-america');
+    });
+
+    test('should fall back to the default region', () => {
+      expect(getShippingRegion('')).toBe('north-america');
+    });
+  });
+
+  describe('getShippingQuote', () => {
+    test('should price the cart by method and region', () => {
+      const products = [{ ...skater, quantity: 2 }];
+
+      expect(getShippingQuote(products, standard, 'north-america')).toEqual({
+        method: standard,
+        region: 'north-america',
+        price: usd(690),
+        deliveryDays: [3, 5],
+      });
+      expect(getShippingQuote(products, express, 'europe').price).toEqual(
+        usd(2590)
+      );
+    });
+
+    test('should not charge for lines that ship for free', () => {
+      expect(
+        getShippingQuote(mockCartProducts, standard, 'europe').price
+      ).toEqual(usd(940));
+      expect(
+        getShippingQuote([groovy, cactus], express, 'europe').price
+      ).toEqual(usd(0));
+    });
+
+    test('should waive the charge when the order ships for free', () => {
+      expect(getShippingQuote([skater], express, 'europe', true).price).toEqual(
+        usd(0)
+      );
+    });
+  });
+
+  describe('getDeliveryEstimate', () => {
+    test('should count business days only', () => {
+      // Thursday
+      const from = new Date(2026, 9, 15);
+      const [earliest, latest] = getDeliveryEstimate(
+        getShippingQuote([skater], standard, 'north-america'),
+        from
+      );
+
+      expect(earliest).toEqual(new Date(2026, 9, 20));
+      expect(latest).toEqual(new Date(2026, 9, 22));
+    });
+  });
+});
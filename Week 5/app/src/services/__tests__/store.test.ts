@@ -0,0 +1,43 @@
+import { createStore, shallowEqual } from '../store';
+
+describe('[services] - store', () => {
+  describe('createStore', () => {
+    test('should notify subscribers of new state', () => {
+      const store = createStore({ count: 0 });
+      const listener = jest.fn();
+      const unsubscribe = store.subscribe(listener);
+
+      store.setState({ count: 1 });
+      expect(store.getState()).toEqual({ count: 1 });
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      unsubscribe();
+      store.setState({ count: 2 });
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    test('should skip setting the state it already holds', () => {
+      const state = { count: 0 };
+      const store = createStore(state);
+      const listener = jest.fn();
+      store.subscribe(listener);
+
+      store.setState(state);
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('shallowEqual', () => {
+    test('should compare objects one key deep', () => {
+      const products: number[] = [];
+
+      expect(
+        shallowEqual({ products, open: true }, { products, open: true })
+      ).toBe(true);
+      expect(shallowEqual({ products }, { products: [] })).toBe(false);
+      expect(shallowEqual({ products }, { products, open: true })).toBe(false);
+      expect(shallowEqual(1, 1)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import {
+  loadWishlist,
+  reconcileWishlist,
+  saveWishlist,
+  WISHLIST_STORAGE_KEY,
+} from '../wishlist-storage';
+
+import { mockProducts } from 'utils/test/mocks';
+
+const [groovy, cactus, skater] = mockProducts;
+
+describe('[services] - wishlist-storage', () => {
+  test('should restore a saved wishlist', () => {
+    saveWishlist([groovy, { ...cactus, selectedSize: 'ML' }]);
+
+    expect(loadWishlist()).toEqual([groovy, { ...cactus, selectedSize: 'ML' }]);
+  });
+
+  test('should return an empty wishlist when nothing was saved', () => {
+    expect(loadWishlist()).toEqual([]);
+  });
+
+  test('should return an empty wishlist when the saved data is unreadable', () => {
+    window.localStorage.setItem(WISHLIST_STORAGE_KEY, '{not json');
+    expect(loadWishlist()).toEqual([]);
+
+    window.localStorage.setItem(
+      WISHLIST_STORAGE_KEY,
+      JSON.stringify({ version: 99, products: [groovy] })
+    );
+    expect(loadWishlist()).toEqual([]);
+  });
+
+  test('should drop malformed entries and keep the rest', () => {
+    const { availableSizes, ...withoutSizes } = cactus;
+
+    window.localStorage.setItem(
+      WISHLIST_STORAGE_KEY,
+      JSON.stringify({
+        version: 1,
+        products: [null, withoutSizes, { ...skater, selectedSize: 3 }, groovy],
+      })
+    );
+
+    expect(loadWishlist()).toEqual([groovy]);
+  });
+
+  test('should refresh saved products from the catalog', () => {
+    const catalog = [
+      { ...groovy, price: 12.5 },
+      { ...cactus, availableSizes: ['L'] },
+    ];
+
+    expect(
+      reconcileWishlist(
+        [groovy, { ...cactus, selectedSize: 'ML' }, skater],
+        catalog
+      )
+    ).toEqual([
+      { ...groovy, price: 12.5, selectedSize: undefined },
+      { ...cactus, availableSizes: ['L'], selectedSize: undefined },
+    ]);
+  });
+});
@@ -0,0 +1,152 @@
+import { ICartProduct, IProduct } from 'models';
+import { BASE_CURRENCY_ID } from 'services/currency';
+import {
+  readStorage,
+  reconcileWithCatalog,
+  writeStorage,
+} from 'services/local-storage';
+import { validateProduct } from 'services/product-feed';
+
+export const CART_STORAGE_KEY = 'react-shopping-cart:cart';
+export const CART_STORAGE_VERSION = 4;
+
+export interface IStoredCart {
+  version: number;
+  products: ICartProduct[];
+  /* Lines saved for later, added in v3 */
+  savedProducts?: ICartProduct[];
+  /* Applied coupon codes, added in v4 */
+  couponCodes?: string[];
+}
+
+type CartMigration = (cart: IStoredCart) => IStoredCart;
+
+/*
+ * Each migration upgrades a stored cart from the version it is keyed by to
+ * the next one. When ICartProduct changes, bump CART_STORAGE_VERSION and add
+ * the step here so carts saved by older builds keep loading.
+ */
+const migrations: { [fromVersion: number]: CartMigration } = {
+  // v2 added `selectedSize`; older lines were always shown in the first size.
+  1: (cart: IStoredCart) => ({
+    version: 2,
+    products: cart.products.map((product: ICartProduct) => ({
+      ...product,
+      selectedSize: product.availableSizes?.[0] || '',
+    })),
+  }),
+  // v3 added the saved-for-later list.
+  2: (cart: IStoredCart) => ({ ...cart, version: 3, savedProducts: [] }),
+  // v4 keeps the applied coupons across reloads.
+  3: (cart: IStoredCart) => ({ ...cart, version: 4, couponCodes: [] }),
+};
+
+const isStoredCart = (value: unknown): value is IStoredCart => {
+  const cart = value as Partial<IStoredCart> | null;
+
+  return (
+    !!cart && typeof cart.version === 'number' && Array.isArray(cart.products)
+  );
+};
+
+/*
+ * A cart line we can render and total: a valid product in the catalog
+ * currency plus a quantity and a size. Lines come from storage or other
+ * tabs, so none is trusted.
+ */
+export const isCartLine = (value: unknown): value is ICartProduct => {
+  if (validateProduct(value)) {
+    return false;
+  }
+
+  const { currencyId, quantity, selectedSize } = value as ICartProduct;
+
+  return (
+    currencyId === BASE_CURRENCY_ID &&
+    Number.isInteger(quantity) &&
+    quantity > 0 &&
+    typeof selectedSize === 'string' &&
+    !!selectedSize
+  );
+};
+
+export const migrateCart = (cart: IStoredCart): IStoredCart | undefined => {
+  let migratedCart = cart;
+
+  while (migratedCart.version < CART_STORAGE_VERSION) {
+    const migrate = migrations[migratedCart.version];
+
+    if (!migrate) {
+      return undefined;
+    }
+
+    migratedCart = migrate(migratedCart);
+  }
+
+  return migratedCart.version === CART_STORAGE_VERSION
+    ? migratedCart
+    : undefined;
+};
+
+const loadStoredCart = (): IStoredCart | undefined => {
+  const storedCart = readStorage(CART_STORAGE_KEY);
+
+  try {
+    return isStoredCart(storedCart) ? migrateCart(storedCart) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// A bad line is dropped on its own rather than taking the cart down with it.
+export const loadCart = (): ICartProduct[] =>
+  (loadStoredCart()?.products || []).filter(isCartLine);
+
+export const loadSavedProducts = (): ICartProduct[] => {
+  const savedProducts = loadStoredCart()?.savedProducts;
+
+  return Array.isArray(savedProducts) ? savedProducts.filter(isCartLine) : [];
+};
+
+export const isCouponCodes = (value: unknown): value is string[] =>
+  Array.isArray(value) &&
+  value.every((code: unknown) => typeof code === 'string');
+
+export const loadCouponCodes = (): string[] => {
+  const couponCodes = loadStoredCart()?.couponCodes;
+
+  return isCouponCodes(couponCodes) ? couponCodes : [];
+};
+
+export const saveCart = (
+  products: ICartProduct[],
+  savedProducts: ICartProduct[] = [],
+  couponCodes: string[] = []
+) => {
+  const storedCart: IStoredCart = {
+    version: CART_STORAGE_VERSION,
+    products,
+    savedProducts,
+    couponCodes,
+  };
+
+  writeStorage(CART_STORAGE_KEY, storedCart);
+};
+
+/*
+ * Drops restored lines whose product (or selected size) is no longer in the
+ * catalog and refreshes the rest with the current catalog data, keeping the
+ * quantity and size.
+ */
+export const reconcileCart = (
+  products: ICartProduct[],
+  catalog: IProduct[]
+): ICartProduct[] =>
+  reconcileWithCatalog(
+    products,
+    catalog,
+    ({ quantity, selectedSize }: ICartProduct, catalogProduct: IProduct) =>
+      quantity > 0 && catalogProduct.availableSizes.includes(selectedSize)
+        ? { ...catalogProduct, quantity, selectedSize }
+        : undefined
+  );
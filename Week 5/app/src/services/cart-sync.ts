@@ -0,0 +1,118 @@
+import { ICartProduct } from 'models';
+import { isCartLine, isCouponCodes } from 'services/cart-storage';
+
+export const CART_SYNC_CHANNEL = 'react-shopping-cart:cart-sync';
+
+export interface ICartSnapshot {
+  products: ICartProduct[];
+  savedProducts?: ICartProduct[];
+  /* Coupons count towards the total, so every tab applies the same ones */
+  couponCodes?: string[];
+  updatedAt: number;
+  origin: string;
+}
+
+export interface ICartSync {
+  publish(snapshot: ICartSnapshot): void;
+  close(): void;
+}
+
+export const createSyncOrigin = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const isCartLines = (lines: unknown) =>
+  Array.isArray(lines) && lines.every(isCartLine);
+
+// One bad line rejects the whole snapshot: applying part of another tab's
+// cart would leave the tabs disagreeing.
+const isCartSnapshot = (value: unknown): value is ICartSnapshot => {
+  const snapshot = value as Partial<ICartSnapshot> | null;
+
+  return (
+    !!snapshot &&
+    isCartLines(snapshot.products) &&
+    (snapshot.savedProducts === undefined ||
+      isCartLines(snapshot.savedProducts)) &&
+    (snapshot.couponCodes === undefined ||
+      isCouponCodes(snapshot.couponCodes)) &&
+    typeof snapshot.updatedAt === 'number' &&
+    typeof snapshot.origin === 'string'
+  );
+};
+
+/*
+ * Concurrent edits are resolved last-writer-wins: the snapshot with the
+ * latest `updatedAt` wins and ties are broken by comparing origins, so every
+ * tab settles on the same cart no matter the order messages arrive in.
+ */
+export const isNewerSnapshot = (
+  snapshot: ICartSnapshot,
+  current: ICartSnapshot
+) =>
+  snapshot.updatedAt > current.updatedAt ||
+  (snapshot.updatedAt === current.updatedAt &&
+    snapshot.origin > current.origin);
+
+const createBroadcastChannelSync = (
+  onSnapshot: (snapshot: ICartSnapshot) => void
+): ICartSync => {
+  const channel = new BroadcastChannel(CART_SYNC_CHANNEL);
+
+  channel.onmessage = (event: MessageEvent) => {
+    if (isCartSnapshot(event.data)) {
+      onSnapshot(event.data);
+    }
+  };
+
+  return {
+    publish: (snapshot: ICartSnapshot) => channel.postMessage(snapshot),
+    close: () => channel.close(),
+  };
+};
+
+/*
+ * Fallback for browsers without BroadcastChannel: writing to localStorage
+ * fires a `storage` event in every other tab of the same origin.
+ */
+const createStorageEventSync = (
+  onSnapshot: (snapshot: ICartSnapshot) => void
+): ICartSync => {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== CART_SYNC_CHANNEL || !event.newValue) {
+      return;
+    }
+
+    try {
+      const snapshot = JSON.parse(event.newValue);
+
+      if (isCartSnapshot(snapshot)) {
+        onSnapshot(snapshot);
+      }
+    } catch {
+      // Ignore messages we can't read.
+    }
+  };
+
+  window.addEventListener('storage', handleStorage);
+
+  return {
+    publish: (snapshot: ICartSnapshot) => {
+      try {
+        window.localStorage.setItem(
+          CART_SYNC_CHANNEL,
+          JSON.stringify(snapshot)
+        );
+      } catch {
+        // Without storage the other tabs simply won't be updated.
+      }
+    },
+    close: () => window.removeEventListener('storage', handleStorage),
+  };
+};
+
+export const createCartSync = (
+  onSnapshot: (snapshot: ICartSnapshot) => void
+): ICartSync =>
+  typeof BroadcastChannel === 'function'
+    ? createBroadcastChannelSync(onSnapshot)
+    : createStorageEventSync(onSnapshot);
@@ -0,0 +1,96 @@
+import { FacetId, FacetSelection, ICatalogView, ProductSortId } from 'models';
+import { facetDefinitions } from 'services/facets';
+import { DEFAULT_PRODUCT_SORT, productSorts } from 'services/product-sort';
+
+export const SORT_PARAM = 'sort';
+export const QUERY_PARAM = 'q';
+
+export interface ICatalogHistory {
+  /* Records a new view; `replace` overwrites the current entry instead */
+  push(view: ICatalogView, replace?: boolean): void;
+  close(): void;
+}
+
+const facetIds = facetDefinitions.map(({ id }) => id);
+
+const isProductSortId = (value: string | null): value is ProductSortId =>
+  productSorts.some(({ id }) => id === value);
+
+/* Facet options repeat their key, e.g. `?size=M&size=L&sort=priceAsc&q=shirt` */
+export const serializeCatalogView = ({
+  filters,
+  sort,
+  query,
+}: ICatalogView): string => {
+  const params = new URLSearchParams();
+
+  facetIds.forEach((facetId: FacetId) =>
+    (filters[facetId] || []).forEach((value: string) =>
+      params.append(facetId, value)
+    )
+  );
+
+  if (sort !== DEFAULT_PRODUCT_SORT) {
+    params.set(SORT_PARAM, sort);
+  }
+
+  if (query.trim()) {
+    params.set(QUERY_PARAM, query);
+  }
+
+  const search = params.toString();
+
+  return search ? `?${search}` : '';
+};
+
+/* Unknown parameters and sorts are ignored, so old or edited links still load */
+export const parseCatalogView = (search: string): ICatalogView => {
+  const params = new URLSearchParams(search);
+  const sort = params.get(SORT_PARAM);
+
+  return {
+    filters: facetIds.reduce(
+      (filters: FacetSelection, facetId: FacetId) =>
+        params.has(facetId)
+          ? { ...filters, [facetId]: params.getAll(facetId) }
+          : filters,
+      {}
+    ),
+    sort: isProductSortId(sort) ? sort : DEFAULT_PRODUCT_SORT,
+    query: params.get(QUERY_PARAM) || '',
+  };
+};
+
+export const readCatalogView = () => parseCatalogView(window.location.search);
+
+/*
+ * Keeps the catalog view in the query string. Every view gets its own history
+ * entry, so back and forward step through them; `onChange` hears about the
+ * views the browser navigates to.
+ */
+export const createCatalogHistory = (
+  onChange: (view: ICatalogView) => void
+): ICatalogHistory => {
+  const handlePopState = () => onChange(readCatalogView());
+
+  window.addEventListener('popstate', handlePopState);
+
+  return {
+    push: (view: ICatalogView, replace = false) => {
+      const search = serializeCatalogView(view);
+
+      if (search === window.location.search) {
+        return;
+      }
+
+      const url = `${window.location.pathname}${search}${window.location.hash}`;
+
+      if (replace) {
+        window.history.replaceState(null, '', url);
+      } else {
+        window.history.pushState(null, '', url);
+      }
+    },
+    close: () => window.removeEventListener('popstate', handlePopState),
+  };
+};
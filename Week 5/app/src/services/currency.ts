@@ -0,0 +1,41 @@
+import { ICurrency, IMoney, IProduct } from 'models';
+import { money, toMajorUnits } from 'utils/money';
+
+/* Catalog prices, promotions and shipping rates are all in this currency */
+export const BASE_CURRENCY_ID = 'USD';
+
+/* Local exchange-rate table, relative to the base currency */
+export const currencies: ICurrency[] = [
+  { id: 'USD', label: 'US Dollar', rate: 1 },
+  { id: 'EUR', label: 'Euro', rate: 0.92 },
+  { id: 'BRL', label: 'Brazilian Real', rate: 5.05 },
+  { id: 'JPY', label: 'Japanese Yen', rate: 151.2 },
+  { id: 'KWD', label: 'Kuwaiti Dinar', rate: 0.307 },
+];
+
+export const getCurrency = (id: string) =>
+  currencies.find((currency: ICurrency) => currency.id === id);
+
+export const getCartCurrencyId = (products: IProduct[]) =>
+  products[0]?.currencyId || BASE_CURRENCY_ID;
+
+/*
+ * Converts through the base currency and rounds to the target currency's
+ * minor unit, so every amount shown in a currency is converted the same way.
+ */
+export const convertMoney = (value: IMoney, toCurrencyId: string): IMoney => {
+  if (value.currencyId === toCurrencyId) {
+    return value;
+  }
+
+  const from = getCurrency(value.currencyId);
+  const to = getCurrency(toCurrencyId);
+
+  if (!from || !to) {
+    throw new Error(
+      `No exchange rate from ${value.currencyId} to ${toCurrencyId}`
+    );
+  }
+
+  return money((toMajorUnits(value) / from.rate) * to.rate, toCurrencyId);
+};
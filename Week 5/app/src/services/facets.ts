@@ -0,0 +1,177 @@
+import {
+  FacetId,
+  FacetSelection,
+  IFacet,
+  IFacetOption,
+  IMoney,
+  IProduct,
+} from 'models';
+import { getCartCurrencyId } from 'services/currency';
+import { money } from 'utils/money';
+
+/* Width of each price range, in major units of the catalog currency */
+export const PRICE_RANGE_STEP = 25;
+
+export const FREE_SHIPPING = 'free';
+
+/* Sizes come from the catalog; this only decides the order they're listed in */
+const sizeOrder = ['XS', 'S', 'M', 'ML', 'L', 'XL', 'XXL'];
+
+interface IFacetDefinition {
+  id: FacetId;
+  label: string;
+  getValues(product: IProduct): string[];
+  getLabel(value: string): string;
+  compareValues(a: string, b: string): number;
+}
+
+const getPriceRange = (price: number) => {
+  const from = Math.floor(price / PRICE_RANGE_STEP) * PRICE_RANGE_STEP;
+
+  return `${from}-${from + PRICE_RANGE_STEP}`;
+};
+
+export const parsePriceRange = (value: string): [number, number] => {
+  const [from, to] = value.split('-').map(Number);
+
+  return [from, to];
+};
+
+const getPriceRangeMoney = (
+  value: string,
+  currencyId: string
+): [IMoney, IMoney] => {
+  const [from, to] = parsePriceRange(value);
+
+  return [money(from, currencyId), money(to, currencyId)];
+};
+
+const getSizeRank = (size: string) => {
+  const rank = sizeOrder.indexOf(size);
+
+  return rank === -1 ? sizeOrder.length : rank;
+};
+
+export const facetDefinitions: IFacetDefinition[] = [
+  {
+    id: 'size',
+    label: 'Sizes',
+    getValues: (product: IProduct) => product.availableSizes,
+    getLabel: (size: string) => size,
+    compareValues: (a: string, b: string) =>
+      getSizeRank(a) - getSizeRank(b) || a.localeCompare(b),
+  },
+  {
+    id: 'style',
+    label: 'Style',
+    getValues: (product: IProduct) => (product.style ? [product.style] : []),
+    getLabel: (style: string) => style,
+    compareValues: (a: string, b: string) => a.localeCompare(b),
+  },
+  {
+    id: 'price',
+    label: 'Price',
+    getValues: (product: IProduct) => [getPriceRange(product.price)],
+    getLabel: (range: string) => parsePriceRange(range).join(' – '),
+    compareValues: (a: string, b: string) =>
+      parsePriceRange(a)[0] - parsePriceRange(b)[0],
+  },
+  {
+    id: 'freeShipping',
+    label: 'Shipping',
+    getValues: (product: IProduct) =>
+      product.isFreeShipping ? [FREE_SHIPPING] : [],
+    getLabel: () => 'Free shipping',
+    compareValues: () => 0,
+  },
+];
+
+const matchesFacet = (
+  product: IProduct,
+  definition: IFacetDefinition,
+  selection: FacetSelection
+) => {
+  const selected = selection[definition.id] || [];
+
+  return (
+    !selected.length ||
+    definition
+      .getValues(product)
+      .some((value: string) => selected.includes(value))
+  );
+};
+
+/*
+ * Options within a facet widen the result (OR) and facets narrow it (AND).
+ * `ignoredFacetId` leaves one facet out, which is what its counts are based on.
+ */
+export const filterCatalog = (
+  catalog: IProduct[],
+  selection: FacetSelection,
+  ignoredFacetId?: FacetId
+): IProduct[] =>
+  catalog.filter((product: IProduct) =>
+    facetDefinitions.every(
+      (definition: IFacetDefinition) =>
+        definition.id === ignoredFacetId ||
+        matchesFacet(product, definition, selection)
+    )
+  );
+
+const getFacetValues = (catalog: IProduct[], definition: IFacetDefinition) =>
+  catalog
+    .reduce(
+      (values: string[], product: IProduct) =>
+        values.concat(
+          definition
+            .getValues(product)
+            .filter((value: string) => !values.includes(value))
+        ),
+      []
+    )
+    .sort(definition.compareValues);
+
+export const getFacets = (
+  catalog: IProduct[],
+  selection: FacetSelection
+): IFacet[] => {
+  const currencyId = getCartCurrencyId(catalog);
+
+  return facetDefinitions
+    .map((definition: IFacetDefinition): IFacet => {
+      const candidates = filterCatalog(catalog, selection, definition.id);
+
+      return {
+        id: definition.id,
+        label: definition.label,
+        options: getFacetValues(catalog, definition).map(
+          (value: string): IFacetOption => ({
+            value,
+            label: definition.getLabel(value),
+            count: candidates.filter((product: IProduct) =>
+              definition.getValues(product).includes(value)
+            ).length,
+            ...(definition.id === 'price' && {
+              range: getPriceRangeMoney(value, currencyId),
+            }),
+          })
+        ),
+      };
+    })
+    .filter((facet: IFacet) => facet.options.length > 0);
+};
+
+export const toggleFacetValue = (
+  selection: FacetSelection,
+  facetId: FacetId,
+  value: string
+): FacetSelection => {
+  const selected = selection[facetId] || [];
+
+  return {
+    ...selection,
+    [facetId]: selected.includes(value)
+      ? selected.filter((selectedValue: string) => selectedValue !== value)
+      : [...selected, value],
+  };
+};
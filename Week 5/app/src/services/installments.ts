@@ -0,0 +1,74 @@
+import {
+  ICartProduct,
+  IInstallmentPlan,
+  IInstallmentTier,
+  IMoney,
+} from 'models';
+import { multiplyMoney, splitMoney, subtractMoney } from 'utils/money';
+
+/* Installments beyond the last tier are not offered */
+export const installmentTiers: IInstallmentTier[] = [
+  { maxCount: 3, monthlyRate: 0 },
+  { maxCount: 6, monthlyRate: 0.0149 },
+  { maxCount: 12, monthlyRate: 0.0249 },
+];
+
+export const MAX_INSTALLMENTS =
+  installmentTiers[installmentTiers.length - 1].maxCount;
+
+/*
+ * An order can be spread over as many installments as its most restrictive
+ * line allows. Products without installments (0) must be paid in one go.
+ */
+export const getInstallmentLimit = (products: ICartProduct[]) =>
+  products.length
+    ? products.reduce(
+        (limit: number, product: ICartProduct) =>
+          Math.min(limit, Math.max(product.installments, 1)),
+        MAX_INSTALLMENTS
+      )
+    : 0;
+
+export const getMonthlyRate = (count: number) =>
+  (
+    installmentTiers.find((tier: IInstallmentTier) => count <= tier.maxCount) ||
+    installmentTiers[installmentTiers.length - 1]
+  ).monthlyRate;
+
+/* Interest-bearing plans use fixed payments on the declining balance */
+export const getInstallmentPlan = (
+  amount: IMoney,
+  count: number
+): IInstallmentPlan => {
+  const monthlyRate = getMonthlyRate(count);
+  const total = monthlyRate
+    ? multiplyMoney(
+        amount,
+        (count * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -count))
+      )
+    : amount;
+  const payments = splitMoney(total, count);
+
+  return {
+    count,
+    monthlyRate,
+    installment: payments[0],
+    payments,
+    interest: subtractMoney(total, amount),
+    total,
+  };
+};
+
+export const getInstallmentPlans = (
+  amount: IMoney,
+  limit: number
+): IInstallmentPlan[] =>
+  Array.from({ length: Math.min(limit, MAX_INSTALLMENTS) }, (_, index) =>
+    getInstallmentPlan(amount, index + 1)
+  );
+
+/* The plan for the picked count, or the longest one still available */
+export const selectInstallmentPlan = (
+  plans: IInstallmentPlan[],
+  count: number
+): IInstallmentPlan | undefined => plans[Math.min(count, plans.length) - 1];
@@ -0,0 +1,60 @@
+import { IProduct } from 'models';
+
+const getStorage = (): Storage | undefined => {
+  try {
+    return window.localStorage;
+  } catch {
+    return undefined;
+  }
+};
+
+/* The parsed value stored under `key`, or undefined when there's none */
+export const readStorage = (key: string): unknown => {
+  const serializedValue = getStorage()?.getItem(key);
+
+  if (!serializedValue) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(serializedValue);
+  } catch {
+    return undefined;
+  }
+};
+
+export const writeStorage = (key: string, value: unknown) => {
+  try {
+    getStorage()?.setItem(key, JSON.stringify(value));
+  } catch {
+    // Storage can be full or disabled (e.g. private mode); the value still
+    // lasts for the current session.
+  }
+};
+
+/*
+ * Matches stored products with the current catalog. `restore` gets each one
+ * with its catalog product and returns what to keep, or undefined to drop
+ * it; products that left the catalog are always dropped.
+ */
+export const reconcileWithCatalog = <T extends { id: number }>(
+  storedProducts: T[],
+  catalog: IProduct[],
+  restore: (storedProduct: T, catalogProduct: IProduct) => T | undefined
+): T[] => {
+  const catalogById = new Map(
+    catalog.map((product: IProduct) => [product.id, product])
+  );
+
+  return storedProducts.reduce((restoredProducts: T[], storedProduct: T) => {
+    const catalogProduct = catalogById.get(storedProduct.id);
+    const restoredProduct =
+      catalogProduct && restore(storedProduct, catalogProduct);
+
+    if (restoredProduct) {
+      restoredProducts.push(restoredProduct);
+    }
+
+    return restoredProducts;
+  }, []);
+};
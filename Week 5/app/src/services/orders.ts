@@ -0,0 +1,36 @@
+import { IOrder, IOrderConfirmation } from 'models';
+
+export interface IOrderService {
+  submitOrder(order: IOrder): Promise<IOrderConfirmation>;
+}
+
+export interface IInMemoryOrderService extends IOrderService {
+  getOrders(): IOrderConfirmation[];
+}
+
+/*
+ * Keeps submitted orders in memory. Used in development and tests until the
+ * storefront is wired to a real order API.
+ */
+export const createInMemoryOrderService = (): IInMemoryOrderService => {
+  const orders: IOrderConfirmation[] = [];
+
+  return {
+    submitOrder: async (order: IOrder) => {
+      const confirmation: IOrderConfirmation = {
+        orderId: `ORD-${Date.now().toString(36).toUpperCase()}-${
+          orders.length + 1
+        }`,
+        placedAt: new Date().toISOString(),
+        order,
+      };
+
+      orders.push(confirmation);
+
+      return confirmation;
+    },
+    getOrders: () => [...orders],
+  };
+};
+
+export const orderService: IOrderService = createInMemoryOrderService();
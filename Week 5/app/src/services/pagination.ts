@@ -0,0 +1,87 @@
+import { PaginationMode } from 'models';
+
+/* Three rows of the widest grid */
+export const DEFAULT_PAGE_SIZE = 12;
+
+/* REACT_APP_PAGINATION_MODE=infinite switches the grid to infinite scroll */
+export const getPaginationMode = (
+  env: Record<string, string | undefined> = process.env
+): PaginationMode =>
+  env.REACT_APP_PAGINATION_MODE === 'infinite' ? 'infinite' : 'pages';
+
+export const getPageCount = (totalCount: number, pageSize: number) =>
+  Math.max(Math.ceil(totalCount / pageSize), 1);
+
+/*
+ * The 1-based positions of the first and last products on screen; infinite
+ * scroll keeps every page loaded so far. [0, 0] when there's nothing.
+ */
+export const getShownRange = (
+  page: number,
+  pageSize: number,
+  totalCount: number,
+  mode: PaginationMode
+): [number, number] => {
+  if (!totalCount) {
+    return [0, 0];
+  }
+
+  const from = mode === 'infinite' ? 1 : (page - 1) * pageSize + 1;
+
+  return [from, Math.min(page * pageSize, totalCount)];
+};
+
+export const paginate = <T>(
+  items: T[],
+  page: number,
+  pageSize: number,
+  mode: PaginationMode
+): T[] => {
+  const [from, to] = getShownRange(page, pageSize, items.length, mode);
+
+  return items.slice(Math.max(from - 1, 0), to);
+};
+
+/* Stands for the pages left out between two shown ones */
+export const PAGE_GAP = 'gap';
+
+/*
+ * The page buttons to show: the first and last pages and `siblings` pages
+ * either side of the current one, with a gap wherever pages are skipped. A
+ * gap would only hide a single page, so that page is shown instead.
+ */
+export const getPageWindow = (
+  page: number,
+  pageCount: number,
+  siblings = 2
+): (number | typeof PAGE_GAP)[] => {
+  const first = Math.max(page - siblings, 1);
+  const last = Math.min(page + siblings, pageCount);
+  const pages: (number | typeof PAGE_GAP)[] = [];
+
+  if (first > 1) {
+    pages.push(1);
+  }
+
+  if (first > 3) {
+    pages.push(PAGE_GAP);
+  } else if (first === 3) {
+    pages.push(2);
+  }
+
+  for (let pageNumber = first; pageNumber <= last; pageNumber += 1) {
+    pages.push(pageNumber);
+  }
+
+  if (last < pageCount - 2) {
+    pages.push(PAGE_GAP);
+  } else if (last === pageCount - 2) {
+    pages.push(pageCount - 1);
+  }
+
+  if (last < pageCount) {
+    pages.push(pageCount);
+  }
+
+  return pages;
+};
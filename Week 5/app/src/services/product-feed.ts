@@ -0,0 +1,120 @@
+import { IProduct } from 'models';
+import { BASE_CURRENCY_ID, getCurrency } from 'services/currency';
+
+export interface IRejectedProduct {
+  /* Position of the record in the feed */
+  index: number;
+  record: unknown;
+  reason: string;
+}
+
+export interface IProductFeed {
+  products: IProduct[];
+  rejected: IRejectedProduct[];
+}
+
+type FieldCheck = [keyof IProduct, (value: unknown) => boolean, string];
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNonEmptyString = (value: unknown) => isString(value) && !!value.trim();
+const isCount = (value: unknown) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+const fieldChecks: FieldCheck[] = [
+  ['id', isCount, 'a whole number'],
+  ['sku', isCount, 'a whole number'],
+  ['title', isNonEmptyString, 'a non-empty string'],
+  ['description', isString, 'a string'],
+  [
+    'availableSizes',
+    (value: unknown) =>
+      Array.isArray(value) && !!value.length && value.every(isNonEmptyString),
+    'a non-empty list of sizes',
+  ],
+  ['style', isString, 'a string'],
+  [
+    'price',
+    (value: unknown) =>
+      typeof value === 'number' && isFinite(value) && value >= 0,
+    'a positive amount',
+  ],
+  ['installments', isCount, 'a whole number'],
+  // Prices are converted through the exchange-rate table, so a currency
+  // that isn't in it can't be shown.
+  [
+    'currencyId',
+    (value: unknown) => isString(value) && !!getCurrency(value),
+    'a supported currency code',
+  ],
+  ['currencyFormat', isString, 'a string'],
+  [
+    'isFreeShipping',
+    (value: unknown) => typeof value === 'boolean',
+    'a boolean',
+  ],
+];
+
+/* Why `record` can't be shown as a product, or undefined when it can */
+export const validateProduct = (record: unknown): string | undefined => {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    return 'not an object';
+  }
+
+  const product = record as Record<string, unknown>;
+
+  for (const [field, isValid, expected] of fieldChecks) {
+    if (!(field in product)) {
+      return `missing ${field}`;
+    }
+
+    if (!isValid(product[field])) {
+      return `${field} should be ${expected}`;
+    }
+  }
+
+  return undefined;
+};
+
+/*
+ * Splits the `data` of a products response into the products we can render
+ * and the records we can't, with the reason for each. Firebase returns
+ * sparse lists as objects keyed by index, so those are read as lists too.
+ * Totals can't add prices in different currencies, so every product has to
+ * be priced in `currencyId`.
+ */
+export const parseProductFeed = (
+  data: unknown,
+  currencyId = BASE_CURRENCY_ID
+): IProductFeed => {
+  const feed: IProductFeed = { products: [], rejected: [] };
+  const ids = new Set<number>();
+  const records = (data as { products?: unknown } | undefined)?.products;
+
+  if (!records || typeof records !== 'object') {
+    return feed;
+  }
+
+  (Array.isArray(records) ? records : Object.values(records)).forEach(
+    (record: unknown, index: number) => {
+      let reason = validateProduct(record);
+      const product = record as IProduct;
+
+      if (!reason && product.currencyId !== currencyId) {
+        reason = `currencyId ${product.currencyId} differs from the catalog's ${currencyId}`;
+      }
+
+      if (!reason && ids.has(product.id)) {
+        reason = `duplicate id ${product.id}`;
+      }
+
+      if (reason) {
+        feed.rejected.push({ index, record, reason });
+      } else {
+        ids.add(product.id);
+        feed.products.push(product);
+      }
+    }
+  );
+
+  return feed;
+};
@@ -0,0 +1,58 @@
+import axios from 'axios';
+
+/*
+ * Where the catalog comes from. Repositories hand back the feed as received
+ * ({ products: [...] }); getProducts validates it, so a source never has to
+ * be trusted.
+ */
+export interface IProductRepository {
+  getProductFeed(): Promise<unknown>;
+}
+
+export const FIREBASE_BASE_URL =
+  'https://react-shopping-cart-67954.firebaseio.com';
+
+/* The catalog bundled with the app */
+export const createStaticProductRepository = (): IProductRepository => ({
+  getProductFeed: () =>
+    Promise.resolve(require('static/json/products.json').data),
+});
+
+/* Any server answering GET `${baseUrl}/products.json`, e.g. Firebase */
+export const createRestProductRepository = (
+  baseUrl: string
+): IProductRepository => ({
+  getProductFeed: () =>
+    axios
+      .get(`${baseUrl.replace(/\/+$/, '')}/products.json`)
+      .then(({ data }) => data),
+});
+
+/* Fixed records, handy in tests; `error` makes every request fail */
+export const createMemoryProductRepository = (
+  records: unknown[],
+  error?: Error
+): IProductRepository => ({
+  getProductFeed: () =>
+    error ? Promise.reject(error) : Promise.resolve({ products: records }),
+});
+
+/*
+ * REACT_APP_PRODUCTS_API_URL points the app at another server, such as the
+ * local mock API; otherwise production reads Firebase and development the
+ * bundled catalog.
+ */
+export const createDefaultProductRepository = (
+  env: {
+    NODE_ENV?: string;
+    REACT_APP_PRODUCTS_API_URL?: string;
+  } = process.env
+): IProductRepository => {
+  if (env.REACT_APP_PRODUCTS_API_URL) {
+    return createRestProductRepository(env.REACT_APP_PRODUCTS_API_URL);
+  }
+
+  return env.NODE_ENV === 'production'
+    ? createRestProductRepository(FIREBASE_BASE_URL)
+    : createStaticProductRepository();
+};
@@ -0,0 +1,48 @@
+import { IProduct, IProductSort, ProductSortId } from 'models';
+import { compareMoney, money } from 'utils/money';
+
+export const productSorts: IProductSort[] = [
+  { id: 'featured', label: 'Featured' },
+  { id: 'priceAsc', label: 'Price: low to high' },
+  { id: 'priceDesc', label: 'Price: high to low' },
+  { id: 'newest', label: 'Newest' },
+  { id: 'installments', label: 'Most installments' },
+  { id: 'freeShipping', label: 'Free shipping first' },
+];
+
+export const DEFAULT_PRODUCT_SORT: ProductSortId = 'featured';
+
+const comparePrice = (a: IProduct, b: IProduct) =>
+  compareMoney(money(a.price, a.currencyId), money(b.price, b.currencyId));
+
+const comparators: Record<
+  ProductSortId,
+  ((a: IProduct, b: IProduct) => number) | undefined
+> = {
+  // The catalog's own order
+  featured: undefined,
+  priceAsc: comparePrice,
+  priceDesc: (a: IProduct, b: IProduct) => comparePrice(b, a),
+  // Ids grow as products are added to the catalog
+  newest: (a: IProduct, b: IProduct) => b.id - a.id,
+  installments: (a: IProduct, b: IProduct) => b.installments - a.installments,
+  freeShipping: (a: IProduct, b: IProduct) =>
+    Number(b.isFreeShipping) - Number(a.isFreeShipping),
+};
+
+/* Returns a sorted copy; ties keep the order they came in */
+export const sortProducts = (
+  products: IProduct[],
+  sortId: ProductSortId
+): IProduct[] => {
+  const compare = comparators[sortId];
+
+  if (!compare) {
+    return products;
+  }
+
+  return products
+    .map((product: IProduct, index: number) => ({ product, index }))
+    .sort((a, b) => compare(a.product, b.product) || a.index - b.index)
+    .map(({ product }) => product);
+};
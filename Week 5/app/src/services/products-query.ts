@@ -0,0 +1,12 @@
+import { IProduct } from 'models';
+import { getProducts } from 'services/products';
+import { createQuery } from 'services/query-cache';
+
+export const PRODUCTS_CACHE_TTL = 5 * 60 * 1000;
+export const PRODUCTS_RETRIES = 3;
+
+/* The catalog, shared by everything that needs it, fetched once at a time */
+export const productsQuery = createQuery<IProduct[]>(() => getProducts(), {
+  ttl: PRODUCTS_CACHE_TTL,
+  retries: PRODUCTS_RETRIES,
+});
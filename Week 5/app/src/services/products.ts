@@ -1,20 +1,27 @@
-import axios from 'axios';
-import { IGetProductsResponse } from 'models';
+import { IProduct } from 'models';
+import { IRejectedProduct, parseProductFeed } from 'services/product-feed';
+import {
+  createDefaultProductRepository,
+  IProductRepository,
+} from 'services/product-repository';
 
-const isProduction = process.env.NODE_ENV === 'production';
+let repository: IProductRepository = createDefaultProductRepository();
 
-export const getProducts = async () => {
-  let response: IGetProductsResponse;
+/* Swaps the catalog source, e.g. for an in-memory one in tests */
+export const setProductRepository = (nextRepository: IProductRepository) => {
+  repository = nextRepository;
+};
 
-  if (isProduction) {
-    response = await axios.get(
-      'https://react-shopping-cart-67954.firebaseio.com/products.json'
-    );
-  } else {
-    response = require('static/json/products.json');
-  }
+export const getProducts = async (): Promise<IProduct[]> => {
+  const { products, rejected } = parseProductFeed(
+    await repository.getProductFeed()
+  );
 
-  const { products } = response.data || [];
+  // One bad record shouldn't take the whole catalog down: skip it and leave
+  // a trace for whoever maintains the feed.
+  rejected.forEach(({ index, reason }: IRejectedProduct) =>
+    console.warn(`Skipped product #${index} in the feed: ${reason}`)
+  );
 
   return products;
 };
@@ -0,0 +1,289 @@
+import { IAppliedDiscount, ICartProduct, IMoney, TextPrices } from 'models';
+import {
+  BASE_CURRENCY_ID,
+  convertMoney,
+  getCartCurrencyId,
+} from 'services/currency';
+import getLinePrice from 'utils/getLinePrice';
+import {
+  compareMoney,
+  isZeroMoney,
+  minMoney,
+  money,
+  percentOfMoney,
+  subtractMoney,
+  sumMoney,
+  zeroMoney,
+} from 'utils/money';
+
+export type PromotionRule =
+  | { type: 'percentage'; percent: number }
+  | { type: 'fixed'; amount: IMoney }
+  | { type: 'buyXGetY'; buy: number; get: number }
+  | { type: 'freeShipping' };
+
+export interface IPromotion {
+  /* Promotions without a code are applied automatically */
+  code?: string;
+  /* {amount} and {minSpend} stand for the amounts below, see describePromotion */
+  description: string;
+  rule: PromotionRule;
+  minSpend?: IMoney;
+}
+
+export interface IPromotionResult {
+  subtotalPrice: IMoney;
+  discounts: IAppliedDiscount[];
+  discountTotal: IMoney;
+  totalPrice: IMoney;
+  hasFreeShipping: boolean;
+}
+
+export type CouponValidation =
+  | { isValid: true; promotion: IPromotion }
+  | { isValid: false; message: string; messagePrices?: TextPrices };
+
+const usd = (amount: number) => money(amount, BASE_CURRENCY_ID);
+
+export const promotions: IPromotion[] = [
+  {
+    code: 'SAVE10',
+    description: '10% off your order',
+    rule: { type: 'percentage', percent: 10 },
+  },
+  {
+    code: 'WELCOME5',
+    description: '{amount} off orders over {minSpend}',
+    rule: { type: 'fixed', amount: usd(5) },
+    minSpend: usd(30),
+  },
+  {
+    code: '3FOR2',
+    description: 'Buy 2, get the cheapest 3rd item free',
+    rule: { type: 'buyXGetY', buy: 2, get: 1 },
+  },
+  {
+    code: 'FREESHIP',
+    description: 'Free shipping on orders over {minSpend}',
+    rule: { type: 'freeShipping' },
+    minSpend: usd(50),
+  },
+  {
+    description: 'Spend {minSpend}, save {amount}',
+    rule: { type: 'fixed', amount: usd(15) },
+    minSpend: usd(150),
+  },
+];
+
+/*
+ * Rules are applied in a fixed order so stacked promotions always give the
+ * same result: item-level deals first, then percentages, then fixed amounts.
+ */
+const ruleOrder: PromotionRule['type'][] = [
+  'buyXGetY',
+  'percentage',
+  'fixed',
+  'freeShipping',
+];
+
+/* The amounts a promotion's description names */
+export const getPromotionPrices = ({
+  rule,
+  minSpend,
+}: IPromotion): TextPrices => ({
+  ...(rule.type === 'fixed' && { amount: rule.amount }),
+  ...(minSpend && { minSpend }),
+});
+
+/* Fills the {placeholders} of a promotion text with formatted amounts */
+export const formatPromotionText = (
+  text: string,
+  prices: TextPrices = {},
+  formatPrice: (price: IMoney) => string
+) =>
+  text.replace(/\{(\w+)\}/g, (placeholder: string, key: string) =>
+    prices[key] ? formatPrice(prices[key]) : placeholder
+  );
+
+export const describePromotion = (
+  promotion: IPromotion,
+  formatPrice: (price: IMoney) => string
+) =>
+  formatPromotionText(
+    promotion.description,
+    getPromotionPrices(promotion),
+    formatPrice
+  );
+
+const meetsMinSpend = ({ minSpend }: IPromotion, subtotalPrice: IMoney) =>
+  !minSpend ||
+  compareMoney(
+    subtotalPrice,
+    convertMoney(minSpend, subtotalPrice.currencyId)
+  ) >= 0;
+
+export const normalizeCouponCode = (code: string) => code.trim().toUpperCase();
+
+const findPromotion = (code: string, availablePromotions: IPromotion[]) =>
+  availablePromotions.find(
+    (promotion: IPromotion) => promotion.code === normalizeCouponCode(code)
+  );
+
+const getSubtotal = (products: ICartProduct[]) =>
+  sumMoney(products.map(getLinePrice), getCartCurrencyId(products));
+
+/* Every `buy + get` units, the cheapest `get` units are free */
+const getBuyXGetYDiscount = (
+  products: ICartProduct[],
+  buy: number,
+  get: number
+) => {
+  const unitPrices = products
+    .reduce(
+      (prices: IMoney[], product: ICartProduct) =>
+        prices.concat(
+          Array(product.quantity).fill(money(product.price, product.currencyId))
+        ),
+      []
+    )
+    .sort(compareMoney);
+  const freeUnits = Math.floor(unitPrices.length / (buy + get)) * get;
+
+  return sumMoney(unitPrices.slice(0, freeUnits), getCartCurrencyId(products));
+};
+
+const getRuleDiscount = (
+  rule: PromotionRule,
+  products: ICartProduct[],
+  remainingPrice: IMoney
+): IMoney => {
+  switch (rule.type) {
+    case 'percentage':
+      return percentOfMoney(remainingPrice, rule.percent);
+    case 'fixed':
+      return convertMoney(rule.amount, remainingPrice.currencyId);
+    case 'buyXGetY':
+      return getBuyXGetYDiscount(products, rule.buy, rule.get);
+    case 'freeShipping':
+      return zeroMoney(remainingPrice.currencyId);
+  }
+};
+
+const isApplicable = (
+  { rule }: IPromotion,
+  products: ICartProduct[]
+): boolean => {
+  switch (rule.type) {
+    case 'buyXGetY':
+      return !isZeroMoney(getBuyXGetYDiscount(products, rule.buy, rule.get));
+    case 'freeShipping':
+      // Nothing to waive when every line already ships for free.
+      return products.some((product: ICartProduct) => !product.isFreeShipping);
+    default:
+      return true;
+  }
+};
+
+export const applyPromotions = (
+  products: ICartProduct[],
+  couponCodes: string[] = [],
+  availablePromotions: IPromotion[] = promotions
+): IPromotionResult => {
+  const subtotalPrice = getSubtotal(products);
+  const activePromotions = availablePromotions
+    .filter(
+      (promotion: IPromotion) =>
+        !promotion.code ||
+        couponCodes.map(normalizeCouponCode).includes(promotion.code)
+    )
+    .filter(
+      (promotion: IPromotion) =>
+        products.length > 0 &&
+        meetsMinSpend(promotion, subtotalPrice) &&
+        isApplicable(promotion, products)
+    )
+    .sort(
+      (a: IPromotion, b: IPromotion) =>
+        ruleOrder.indexOf(a.rule.type) - ruleOrder.indexOf(b.rule.type)
+    );
+
+  let remainingPrice = subtotalPrice;
+  const discounts = activePromotions.map(
+    (promotion: IPromotion): IAppliedDiscount => {
+      const { code, description, rule } = promotion;
+      const amount = minMoney(
+        getRuleDiscount(rule, products, remainingPrice),
+        remainingPrice
+      );
+      remainingPrice = subtractMoney(remainingPrice, amount);
+
+      return {
+        code,
+        description,
+        descriptionPrices: getPromotionPrices(promotion),
+        amount,
+      };
+    }
+  );
+
+  return {
+    subtotalPrice,
+    discounts,
+    discountTotal: subtractMoney(subtotalPrice, remainingPrice),
+    totalPrice: remainingPrice,
+    hasFreeShipping:
+      (products.length > 0 &&
+        products.every((product: ICartProduct) => product.isFreeShipping)) ||
+      activePromotions.some(
+        ({ rule }: IPromotion) => rule.type === 'freeShipping'
+      ),
+  };
+};
+
+export const validateCoupon = (
+  code: string,
+  products: ICartProduct[],
+  appliedCodes: string[] = [],
+  availablePromotions: IPromotion[] = promotions
+): CouponValidation => {
+  const normalizedCode = normalizeCouponCode(code);
+
+  if (!normalizedCode) {
+    return { isValid: false, message: 'Enter a coupon code.' };
+  }
+
+  const promotion = findPromotion(normalizedCode, availablePromotions);
+
+  if (!promotion) {
+    return {
+      isValid: false,
+      message: `"${normalizedCode}" is not a valid coupon code.`,
+    };
+  }
+
+  if (appliedCodes.map(normalizeCouponCode).includes(normalizedCode)) {
+    return {
+      isValid: false,
+      message: `"${normalizedCode}" has already been applied.`,
+    };
+  }
+
+  if (promotion.minSpend && !meetsMinSpend(promotion, getSubtotal(products))) {
+    // The amount is formatted where the message is shown, in the shopper's
+    // currency.
+    return {
+      isValid: false,
+      message: `"${normalizedCode}" needs a subtotal of at least {minSpend}.`,
+      messagePrices: { minSpend: promotion.minSpend },
+    };
+  }
+
+  if (!isApplicable(promotion, products)) {
+    return {
+      isValid: false,
+      message: `"${normalizedCode}" does not apply to the products in your cart.`,
+    };
+  }
+
+  return { isValid: true, promotion };
+};
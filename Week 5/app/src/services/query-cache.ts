@@ -0,0 +1,137 @@
+export interface IQueryState<T> {
+  data?: T;
+  /* When `data` was fetched, in ms since the epoch */
+  updatedAt?: number;
+  error?: unknown;
+  /* A request is in flight, whether or not there's data to show meanwhile */
+  isFetching: boolean;
+}
+
+export interface IQueryOptions {
+  /* How long fetched data counts as fresh, in ms */
+  ttl?: number;
+  /* Extra attempts after a failed request, before giving up */
+  retries?: number;
+  /* Wait before retry number `attempt` (from 0), in ms */
+  retryDelay?(attempt: number): number;
+}
+
+export interface IQuery<T> {
+  getState(): IQueryState<T>;
+  fetch(): Promise<T>;
+  /* Drops the cached data, so the next fetch is a cold load */
+  invalidate(): void;
+  subscribe(listener: (state: IQueryState<T>) => void): () => void;
+}
+
+export const DEFAULT_QUERY_TTL = 5 * 60 * 1000;
+
+/* 1s, 2s, 4s... up to 30s */
+export const exponentialBackoff = (attempt: number) =>
+  Math.min(1000 * 2 ** attempt, 30 * 1000);
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/*
+ * Caches the result of `fetcher` with stale-while-revalidate semantics:
+ * fresh data is returned as is, stale data is returned right away while a
+ * background request refreshes it, and concurrent fetches share a request.
+ */
+export const createQuery = <T>(
+  fetcher: () => Promise<T>,
+  {
+    ttl = DEFAULT_QUERY_TTL,
+    retries = 0,
+    retryDelay = exponentialBackoff,
+  }: IQueryOptions = {}
+): IQuery<T> => {
+  let state: IQueryState<T> = { isFetching: false };
+  let request: Promise<T> | undefined;
+  // Bumped on invalidate, so a request started before it can't repopulate
+  // the cache afterwards.
+  let generation = 0;
+  const listeners: ((state: IQueryState<T>) => void)[] = [];
+
+  const setState = (nextState: Partial<IQueryState<T>>) => {
+    state = { ...state, ...nextState };
+    listeners.forEach((listener) => listener(state));
+  };
+
+  const startRequest = () => {
+    if (request) {
+      return request;
+    }
+
+    const requestGeneration = generation;
+    const isCurrent = () => requestGeneration === generation;
+    const attempt = (count: number): Promise<T> =>
+      fetcher().catch((error: unknown) =>
+        count < retries && isCurrent()
+          ? wait(retryDelay(count)).then(() => attempt(count + 1))
+          : Promise.reject(error)
+      );
+
+    setState({ isFetching: true });
+    request = attempt(0).then(
+      (data: T) => {
+        if (isCurrent()) {
+          request = undefined;
+          setState({
+            data,
+            updatedAt: Date.now(),
+            error: undefined,
+            isFetching: false,
+          });
+        }
+
+        return data;
+      },
+      (error: unknown) => {
+        if (isCurrent()) {
+          request = undefined;
+          setState({ error, isFetching: false });
+        }
+
+        throw error;
+      }
+    );
+
+    return request;
+  };
+
+  const fetch = (): Promise<T> => {
+    const { data, updatedAt = 0 } = state;
+
+    if (data === undefined) {
+      return startRequest();
+    }
+
+    if (Date.now() - updatedAt >= ttl) {
+      // Failed revalidations keep the stale data; the error is in the state.
+      startRequest().catch(() => undefined);
+    }
+
+    return Promise.resolve(data);
+  };
+
+  const invalidate = () => {
+    generation += 1;
+    request = undefined;
+    setState({
+      data: undefined,
+      updatedAt: undefined,
+      error: undefined,
+      isFetching: false,
+    });
+  };
+
+  const subscribe = (listener: (state: IQueryState<T>) => void) => {
+    listeners.push(listener);
+
+    return () => {
+      listeners.splice(listeners.indexOf(listener), 1);
+    };
+  };
+
+  return { getState: () => state, fetch, invalidate, subscribe };
+};
@@ -0,0 +1,170 @@
+import { IProduct } from 'models';
+
+type SearchField = 'title' | 'style' | 'description';
+
+export interface ISearchDocument {
+  product: IProduct;
+  fields: { field: SearchField; tokens: string[] }[];
+}
+
+export interface ISearchResult {
+  product: IProduct;
+  score: number;
+  /* Normalized product words the query matched, for highlighting */
+  matches: string[];
+}
+
+/* A match in the title counts more than one in the style or description */
+export const fieldWeights: Record<SearchField, number> = {
+  title: 3,
+  style: 2,
+  description: 1,
+};
+
+const WORD_SEPARATOR = /[^a-z0-9\u00c0-\u024f]+/i;
+
+/* Lower case without accents, so "Camisetá" and "camiseta" are the same word */
+export const normalizeWord = (word: string) =>
+  word
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+
+export const tokenize = (text: string): string[] =>
+  normalizeWord(text)
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+/* Typos allowed per word; short words have to be spelled right */
+export const getMaxEdits = (term: string) =>
+  term.length <= 3 ? 0 : term.length <= 6 ? 1 : 2;
+
+/* Levenshtein distance, giving up once it's above `max` */
+export const getEditDistance = (a: string, b: string, max = Infinity) => {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+
+    if (rowMin > max) {
+      return max + 1;
+    }
+
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+/*
+ * How well a query term matches a word, from 1 (exact) down to 0 (no match).
+ * Prefixes match so results show up while the shopper is still typing.
+ */
+const getMatchQuality = (term: string, word: string) => {
+  if (word === term) {
+    return 1;
+  }
+
+  if (term.length >= 2 && word.startsWith(term)) {
+    return 0.8;
+  }
+
+  const maxEdits = getMaxEdits(term);
+  const distance = getEditDistance(term, word, maxEdits);
+
+  return distance <= maxEdits ? 0.7 - 0.2 * distance : 0;
+};
+
+export const createSearchIndex = (catalog: IProduct[]): ISearchDocument[] =>
+  catalog.map((product: IProduct) => ({
+    product,
+    fields: (['title', 'style', 'description'] as SearchField[]).map(
+      (field: SearchField) => ({ field, tokens: tokenize(product[field]) })
+    ),
+  }));
+
+const scoreDocument = (
+  { product, fields }: ISearchDocument,
+  terms: string[]
+): ISearchResult | undefined => {
+  let score = 0;
+  const matches: string[] = [];
+
+  for (const term of terms) {
+    let termScore = 0;
+
+    fields.forEach(({ field, tokens }) =>
+      tokens.forEach((token: string) => {
+        const quality = getMatchQuality(term, token);
+
+        if (!quality) {
+          return;
+        }
+
+        termScore = Math.max(termScore, quality * fieldWeights[field]);
+
+        if (!matches.includes(token)) {
+          matches.push(token);
+        }
+      })
+    );
+
+    // Every word of the query has to match somewhere.
+    if (!termScore) {
+      return undefined;
+    }
+
+    score += termScore;
+  }
+
+  return { product, score, matches };
+};
+
+/* Matching products, most relevant first; ties keep the catalog order */
+export const searchProducts = (
+  index: ISearchDocument[],
+  query: string
+): ISearchResult[] => {
+  const terms = tokenize(query);
+
+  if (!terms.length) {
+    return [];
+  }
+
+  return index
+    .map((document: ISearchDocument) => scoreDocument(document, terms))
+    .filter((result): result is ISearchResult => !!result)
+    .sort((a: ISearchResult, b: ISearchResult) => b.score - a.score);
+};
+
+export interface IHighlightPart {
+  text: string;
+  isMatch: boolean;
+}
+
+/* Splits `text` into runs, flagging the words found in `matches` */
+export const highlightText = (
+  text: string,
+  matches: string[] = []
+): IHighlightPart[] =>
+  text
+    .split(new RegExp(`(${WORD_SEPARATOR.source})`, 'i'))
+    .filter(Boolean)
+    .map((part: string) => ({
+      text: part,
+      isMatch: matches.includes(normalizeWord(part)),
+    }));
@@ -0,0 +1,110 @@
+import {
+  ICartProduct,
+  IShippingMethod,
+  IShippingQuote,
+  IShippingRate,
+  ShippingRegion,
+} from 'models';
+import { getCartCurrencyId } from 'services/currency';
+import { addMoney, money, multiplyMoney, zeroMoney } from 'utils/money';
+
+export const shippingMethods: IShippingMethod[] = [
+  { id: 'standard', label: 'Standard' },
+  { id: 'express', label: 'Express' },
+];
+
+export const shippingRegions: {
+  id: ShippingRegion;
+  label: string;
+  countries: string[];
+}[] = [
+  {
+    id: 'north-america',
+    label: 'North America',
+    countries: ['Canada', 'United States'],
+  },
+  { id: 'south-america', label: 'South America', countries: ['Brazil'] },
+  {
+    id: 'europe',
+    label: 'Europe',
+    countries: ['Germany', 'Netherlands', 'Portugal', 'United Kingdom'],
+  },
+];
+
+/* Used for cart estimates until the shopper enters an address */
+export const DEFAULT_SHIPPING_REGION: ShippingRegion = 'north-america';
+
+/*
+ * Rates per method and region: a flat charge per order plus a charge per
+ * item. Items flagged `isFreeShipping` are never charged for.
+ */
+export const shippingRates: {
+  [methodId: string]: { [region in ShippingRegion]: IShippingRate };
+} = {
+  standard: {
+    'north-america': { base: 4.9, perItem: 1, deliveryDays: [3, 5] },
+    'south-america': { base: 9.9, perItem: 2, deliveryDays: [8, 14] },
+    europe: { base: 7.9, perItem: 1.5, deliveryDays: [6, 10] },
+  },
+  express: {
+    'north-america': { base: 12.9, perItem: 2, deliveryDays: [1, 2] },
+    'south-america': { base: 24.9, perItem: 4, deliveryDays: [3, 5] },
+    europe: { base: 19.9, perItem: 3, deliveryDays: [2, 4] },
+  },
+};
+
+export const getShippingMethod = (id: string) =>
+  shippingMethods.find((method: IShippingMethod) => method.id === id);
+
+export const getShippingRegion = (country: string): ShippingRegion =>
+  shippingRegions.find(({ countries }) => countries.includes(country))?.id ||
+  DEFAULT_SHIPPING_REGION;
+
+export const getShippingQuote = (
+  products: ICartProduct[],
+  method: IShippingMethod,
+  region: ShippingRegion,
+  hasFreeShipping = false
+): IShippingQuote => {
+  const { base, perItem, deliveryDays } = shippingRates[method.id][region];
+  const currencyId = getCartCurrencyId(products);
+  const chargedQuantity = products
+    .filter((product: ICartProduct) => !product.isFreeShipping)
+    .reduce((sum: number, product: ICartProduct) => sum + product.quantity, 0);
+
+  return {
+    method,
+    region,
+    price:
+      hasFreeShipping || !chargedQuantity
+        ? zeroMoney(currencyId)
+        : addMoney(
+            money(base, currencyId),
+            multiplyMoney(money(perItem, currencyId), chargedQuantity)
+          ),
+    deliveryDays,
+  };
+};
+
+const addBusinessDays = (from: Date, days: number) => {
+  const date = new Date(from.getTime());
+  let remaining = days;
+
+  while (remaining > 0) {
+    date.setDate(date.getDate() + 1);
+
+    if (date.getDay() !== 0 && date.getDay() !== 6) {
+      remaining -= 1;
+    }
+  }
+
+  return date;
+};
+
+export const getDeliveryEstimate = (
+  { deliveryDays: [earliest, latest] }: IShippingQuote,
+  from: Date = new Date()
+): [Date, Date] => [
+  addBusinessDays(from, earliest),
+  addBusinessDays(from, latest),
+];
@@ -0,0 +1,60 @@
+export interface IReadableStore<T> {
+  getState(): T;
+  subscribe(listener: () => void): () => void;
+}
+
+export interface IStore<T> extends IReadableStore<T> {
+  setState(state: T): void;
+}
+
+/*
+ * Holds state outside React. Actions write to it directly, so a read right
+ * after an action already sees the change, and components subscribe to just
+ * the part they render with useStoreSelector.
+ */
+export const createStore = <T>(initialState: T): IStore<T> => {
+  let state = initialState;
+  const listeners: (() => void)[] = [];
+
+  const setState = (nextState: T) => {
+    if (nextState === state) {
+      return;
+    }
+
+    state = nextState;
+    // A listener may unsubscribe while we're notifying.
+    listeners.slice().forEach((listener) => listener());
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.push(listener);
+
+    return () => {
+      listeners.splice(listeners.indexOf(listener), 1);
+    };
+  };
+
+  return { getState: () => state, setState, subscribe };
+};
+
+/* Compares two objects one key deep, for selectors that pick a few fields */
+export const shallowEqual = <T>(a: T, b: T): boolean => {
+  if (Object.is(a, b)) {
+    return true;
+  }
+
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') {
+    return false;
+  }
+
+  const keys = Object.keys(a) as (keyof T)[];
+
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every(
+      (key) =>
+        Object.prototype.hasOwnProperty.call(b, key) &&
+        Object.is(a[key], b[key])
+    )
+  );
+};
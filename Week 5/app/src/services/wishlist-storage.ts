@@ -0,0 +1,74 @@
+import { IProduct, IWishlistProduct } from 'models';
+import {
+  readStorage,
+  reconcileWithCatalog,
+  writeStorage,
+} from 'services/local-storage';
+import { validateProduct } from 'services/product-feed';
+
+export const WISHLIST_STORAGE_KEY = 'react-shopping-cart:wishlist';
+export const WISHLIST_STORAGE_VERSION = 1;
+
+export interface IStoredWishlist {
+  version: number;
+  products: IWishlistProduct[];
+}
+
+const isStoredWishlist = (value: unknown): value is IStoredWishlist => {
+  const wishlist = value as Partial<IStoredWishlist> | null;
+
+  return (
+    !!wishlist &&
+    wishlist.version === WISHLIST_STORAGE_VERSION &&
+    Array.isArray(wishlist.products)
+  );
+};
+
+/* A valid product, with a size only if one was picked */
+const isWishlistProduct = (value: unknown): value is IWishlistProduct => {
+  if (validateProduct(value)) {
+    return false;
+  }
+
+  const { selectedSize } = value as IWishlistProduct;
+
+  return selectedSize === undefined || typeof selectedSize === 'string';
+};
+
+// Like the cart, a bad entry is dropped on its own.
+export const loadWishlist = (): IWishlistProduct[] => {
+  const storedWishlist = readStorage(WISHLIST_STORAGE_KEY);
+
+  return isStoredWishlist(storedWishlist)
+    ? storedWishlist.products.filter(isWishlistProduct)
+    : [];
+};
+
+export const saveWishlist = (products: IWishlistProduct[]) => {
+  const storedWishlist: IStoredWishlist = {
+    version: WISHLIST_STORAGE_VERSION,
+    products,
+  };
+
+  writeStorage(WISHLIST_STORAGE_KEY, storedWishlist);
+};
+
+/*
+ * Refreshes saved products with the current catalog data and drops the ones
+ * that are gone. A size that's no longer available is cleared, not dropped.
+ */
+export const reconcileWishlist = (
+  products: IWishlistProduct[],
+  catalog: IProduct[]
+): IWishlistProduct[] =>
+  reconcileWithCatalog(
+    products,
+    catalog,
+    ({ selectedSize }: IWishlistProduct, catalogProduct: IProduct) => ({
+      ...catalogProduct,
+      selectedSize:
+        selectedSize && catalogProduct.availableSizes.includes(selectedSize)
+          ? selectedSize
+          : undefined,
+    })
+  );
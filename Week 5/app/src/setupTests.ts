@@ -3,3 +3,13 @@
 // expect(element).toHaveTextContent(/react/i)
 // learn more: https://github.com/testing-library/jest-dom
 import '@testing-library/jest-dom';
+
+import { productsQuery } from 'services/products-query';
+
+afterEach(() => {
+  window.localStorage.clear();
+  // The catalog view lives in the query string; start every test without one.
+  window.history.replaceState(null, '', '/');
+  // Every test mocks its own catalog.
+  productsQuery.invalidate();
+});
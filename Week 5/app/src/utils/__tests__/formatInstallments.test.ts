@@ -0,0 +1,19 @@
+import { getInstallmentPlan } from 'services/installments';
+import formatInstallments from '../formatInstallments';
+import formatPrice from '../formatPrice';
+
+const usd = (amount: number) => ({ amount, currencyId: 'USD' });
+
+describe('[utils] - formatInstallments', () => {
+  test('should show even installments once', () => {
+    expect(
+      formatInstallments(getInstallmentPlan(usd(900), 3), formatPrice)
+    ).toBe('3 x $3.00');
+  });
+
+  test('should show the uneven first installment apart', () => {
+    expect(
+      formatInstallments(getInstallmentPlan(usd(1090), 3), formatPrice)
+    ).toBe('1 x $3.64 + 2 x $3.63');
+  });
+});
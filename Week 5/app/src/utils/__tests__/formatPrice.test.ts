@@ -1,12 +1,58 @@
-import formatPrice from '../formatPrice';
+import formatPrice, { getPriceParts } from '../formatPrice';
+import { money } from '../money';
 
 describe('[utils] - formatPrice', () => {
-  test('should replace price dot decimal with comma when currencyId is BRL', () => {
-    expect(formatPrice(10.9, 'BRL')).toBe('10,90');
+  test('should format the price for the currency and locale', () => {
+    expect(formatPrice(money(10.9, 'USD'))).toBe('$10.90');
+    expect(formatPrice(money(10.9, 'BRL'), 'pt-BR')).toBe('R$\u00a010,90');
+    expect(formatPrice(money(1234.5, 'EUR'), 'de-DE')).toBe('1.234,50\u00a0€');
   });
 
-  test('should return price as string as default when no currencyId match', () => {
-    expect(formatPrice(10.9, 'USD')).toBe('10.90');
-    expect(typeof formatPrice(10.9, 'USD')).toBe('string');
+  test('should use the minor units of the currency', () => {
+    expect(formatPrice({ amount: 1648, currencyId: 'JPY' })).toBe('¥1,648');
+    expect(formatPrice({ amount: 3346, currencyId: 'KWD' })).toBe(
+      'KWD\u00a03.346'
+    );
+  });
+
+  describe('getPriceParts', () => {
+    test('should split the symbol, integer and fraction', () => {
+      expect(getPriceParts(money(1234.5, 'USD'))).toEqual({
+        currency: '$',
+        integer: '1,234',
+        fraction: '.50',
+        currencyPosition: 'before',
+      });
+      expect(getPriceParts(money(10.9, 'BRL'), 'pt-BR')).toEqual({
+        currency: 'R$',
+        integer: '10',
+        fraction: ',90',
+        currencyPosition: 'before',
+      });
+    });
+
+    test('should keep the symbol where the locale puts it', () => {
+      expect(getPriceParts(money(10.9, 'EUR'), 'de-DE')).toEqual({
+        currency: '€',
+        integer: '10',
+        fraction: ',90',
+        currencyPosition: 'after',
+      });
+    });
+
+    test('should support currencies with zero or three decimals', () => {
+      expect(getPriceParts(money(1648, 'JPY'))).toEqual({
+        currency: '¥',
+        integer: '1,648',
+        fraction: '',
+        currencyPosition: 'before',
+      });
+      expect(getPriceParts(money(3.346, 'KWD'))).toEqual({
+        currency: 'KWD',
+        integer: '3',
+        fraction: '.346',
+        currencyPosition: 'before',
+      });
+    });
   });
 });
@@ -0,0 +1,46 @@
+import getGridColumns from '../getGridColumns';
+import getGridWindow from '../getGridWindow';
+
+describe('[utils] - grid', () => {
+  describe('getGridColumns', () => {
+    test('should follow the theme breakpoints', () => {
+      expect(getGridColumns(375)).toBe(2);
+      expect(getGridColumns(768)).toBe(3);
+      expect(getGridColumns(1024)).toBe(3);
+      expect(getGridColumns(1025)).toBe(4);
+    });
+  });
+
+  describe('getGridWindow', () => {
+    const options = {
+      itemCount: 1000,
+      columns: 4,
+      rowHeight: 500,
+      viewportHeight: 800,
+    };
+
+    test('should start at the top of the grid', () => {
+      expect(getGridWindow({ ...options, scrollTop: -300 })).toEqual({
+        startRow: 0,
+        endRow: 3,
+      });
+    });
+
+    test('should cover the visible rows and the overscan', () => {
+      expect(getGridWindow({ ...options, scrollTop: 5200 })).toEqual({
+        startRow: 8,
+        endRow: 14,
+      });
+      expect(
+        getGridWindow({ ...options, scrollTop: 5200, overscan: 0 })
+      ).toEqual({ startRow: 10, endRow: 12 });
+    });
+
+    test('should stop at the last row', () => {
+      expect(getGridWindow({ ...options, scrollTop: 200000 })).toEqual({
+        startRow: 250,
+        endRow: 250,
+      });
+    });
+  });
+});
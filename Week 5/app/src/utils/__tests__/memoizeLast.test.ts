@@ -0,0 +1,20 @@
+import memoizeLast from '../memoizeLast';
+
+describe('[utils] - memoizeLast', () => {
+  test('should only run again when an argument changes', () => {
+    const filters = { size: ['M'] };
+    const fn = jest.fn((values: number[], filters: object) => ({
+      values,
+      filters,
+    }));
+    const memoized = memoizeLast(fn);
+    const values = [1, 2];
+
+    const first = memoized(values, filters);
+    expect(memoized(values, filters)).toBe(first);
+    expect(fn).toHaveBeenCalledTimes(1);
+
+    expect(memoized([1, 2], filters)).not.toBe(first);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+});
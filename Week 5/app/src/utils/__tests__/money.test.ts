@@ -0,0 +1,78 @@
+import {
+  addMoney,
+  allocateMoney,
+  getMinorUnits,
+  minMoney,
+  money,
+  multiplyMoney,
+  percentOfMoney,
+  splitMoney,
+  subtractMoney,
+  sumMoney,
+  toMajorUnits,
+} from '../money';
+
+const usd = (amount: number) => ({ amount, currencyId: 'USD' });
+
+describe('[utils] - money', () => {
+  test('should store amounts in minor units', () => {
+    expect(money(10.9, 'USD')).toEqual(usd(1090));
+    expect(money(1.005, 'USD')).toEqual(usd(101));
+    expect(money(1648, 'JPY')).toEqual({ amount: 1648, currencyId: 'JPY' });
+    expect(money(3.3465, 'KWD')).toEqual({ amount: 3347, currencyId: 'KWD' });
+    expect(toMajorUnits(usd(1090))).toBe(10.9);
+  });
+
+  test('should know the minor units of each currency', () => {
+    expect(getMinorUnits('USD')).toBe(2);
+    expect(getMinorUnits('JPY')).toBe(0);
+    expect(getMinorUnits('KWD')).toBe(3);
+  });
+
+  test('should not drift when adding and multiplying', () => {
+    expect(multiplyMoney(money(10.9, 'USD'), 3)).toEqual(usd(3270));
+    expect(sumMoney([usd(10), usd(20), usd(3240)], 'USD')).toEqual(usd(3270));
+    expect(addMoney(money(0.1, 'USD'), money(0.2, 'USD'))).toEqual(
+      money(0.3, 'USD')
+    );
+    expect(subtractMoney(usd(1090), usd(90))).toEqual(usd(1000));
+  });
+
+  test('should round half-way values away from zero', () => {
+    expect(percentOfMoney(usd(5005), 10)).toEqual(usd(501));
+    expect(multiplyMoney(usd(-5), 0.5)).toEqual(usd(-3));
+  });
+
+  test('should pick the smaller amount', () => {
+    expect(minMoney(usd(1), usd(2))).toEqual(usd(1));
+  });
+
+  test('should refuse to mix currencies', () => {
+    expect(() => addMoney(usd(1), money(1, 'EUR'))).toThrow(
+      'Cannot combine USD with EUR'
+    );
+  });
+
+  describe('allocateMoney', () => {
+    test('should give leftover minor units to the first parts', () => {
+      expect(splitMoney(usd(1090), 9).map(({ amount }) => amount)).toEqual([
+        122, 121, 121, 121, 121, 121, 121, 121, 121,
+      ]);
+      expect(allocateMoney(usd(5), [3, 7]).map(({ amount }) => amount)).toEqual(
+        [2, 3]
+      );
+    });
+
+    test.each([
+      [1090, 9],
+      [3270, 7],
+      [1, 3],
+      [99999, 12],
+    ])('should add %i back up exactly in %i parts', (amount, count) => {
+      const parts = splitMoney(usd(amount), count);
+
+      expect(parts).toHaveLength(count);
+      expect(sumMoney(parts, 'USD')).toEqual(usd(amount));
+    });
+  });
+});
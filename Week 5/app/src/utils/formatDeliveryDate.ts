@@ -0,0 +1,8 @@
+const formatDeliveryDate = (date: Date): string =>
+  date.toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+
+export default formatDeliveryDate;
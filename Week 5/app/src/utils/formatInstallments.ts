@@ -0,0 +1,27 @@
+import { IInstallmentPlan, IMoney } from 'models';
+
+/*
+ * "3 x $3.00", or "1 x $3.64 + 2 x $3.63" when the total doesn't split evenly,
+ * so the payments shown always add up to the plan total.
+ */
+const formatInstallments = (
+  { payments }: IInstallmentPlan,
+  formatPrice: (price: IMoney) => string
+): string =>
+  payments
+    .reduce((groups: { price: string; count: number }[], payment: IMoney) => {
+      const price = formatPrice(payment);
+      const lastGroup = groups[groups.length - 1];
+
+      if (lastGroup?.price === price) {
+        lastGroup.count += 1;
+      } else {
+        groups.push({ price, count: 1 });
+      }
+
+      return groups;
+    }, [])
+    .map(({ price, count }) => `${count} x ${price}`)
+    .join(' + ');
+
+export default formatInstallments;
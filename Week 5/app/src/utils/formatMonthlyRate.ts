@@ -0,0 +1,4 @@
+const formatMonthlyRate = (monthlyRate: number): string =>
+  monthlyRate ? `${(monthlyRate * 100).toFixed(2)}% a month` : 'interest-free';
+
+export default formatMonthlyRate;
@@ -1,10 +1,46 @@
-const formatPrice = (price: number, currencyId: string): string => {
-  switch (currencyId) {
-    case 'BRL':
-      return price.toFixed(2).replace('.', ',');
-    default:
-      return price.toFixed(2);
-  }
-};
+import { IMoney } from 'models';
+import { toMajorUnits } from 'utils/money';
+
+export interface IPriceParts {
+  currency: string;
+  integer: string;
+  /* Decimal separator and digits, empty for currencies without minor units */
+  fraction: string;
+  /* Where the locale puts the symbol: "$10.90" but "10,90 €" */
+  currencyPosition: 'before' | 'after';
+}
+
+const getFormatter = (currencyId: string, locale: string) =>
+  new Intl.NumberFormat(locale, { style: 'currency', currency: currencyId });
+
+const formatPrice = (price: IMoney, locale: string = 'en-US'): string =>
+  getFormatter(price.currencyId, locale).format(toMajorUnits(price));
+
+export const getPriceParts = (
+  price: IMoney,
+  locale: string = 'en-US'
+): IPriceParts =>
+  getFormatter(price.currencyId, locale)
+    .formatToParts(toMajorUnits(price))
+    .reduce<IPriceParts>(
+      (parts: IPriceParts, { type, value }: Intl.NumberFormatPart) => {
+        switch (type) {
+          case 'currency':
+            return {
+              ...parts,
+              currency: value,
+              currencyPosition: parts.integer ? 'after' : 'before',
+            };
+          case 'decimal':
+          case 'fraction':
+            return { ...parts, fraction: parts.fraction + value };
+          case 'literal':
+            return parts;
+          default:
+            return { ...parts, integer: parts.integer + value };
+        }
+      },
+      { currency: '', integer: '', fraction: '', currencyPosition: 'before' }
+    );
 
 export default formatPrice;
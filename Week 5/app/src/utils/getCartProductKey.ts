@@ -0,0 +1,13 @@
+import { ICartProduct } from 'models';
+
+/*
+ * A cart line is identified by the product and the size picked for it, so
+ * the same shirt in M and XL are two separate lines.
+ */
+const getCartProductKey = ({
+  id,
+  selectedSize,
+}: Pick<ICartProduct, 'id' | 'selectedSize'>): string =>
+  `${id}-${selectedSize}`;
+
+export default getCartProductKey;
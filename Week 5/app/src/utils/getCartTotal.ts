@@ -0,0 +1,58 @@
+import {
+  ICartProduct,
+  ICartTotal,
+  IShippingMethod,
+  ShippingRegion,
+} from 'models';
+import { getInstallmentLimit } from 'services/installments';
+import { applyPromotions } from 'services/promotions';
+import {
+  DEFAULT_SHIPPING_REGION,
+  getShippingQuote,
+  shippingMethods,
+} from 'services/shipping';
+import { addMoney } from 'utils/money';
+
+const getCartTotal = (
+  products: ICartProduct[],
+  couponCodes: string[] = [],
+  shippingMethod: IShippingMethod = shippingMethods[0],
+  shippingRegion: ShippingRegion = DEFAULT_SHIPPING_REGION
+): ICartTotal => {
+  const productQuantity = products.reduce(
+    (sum: number, product: ICartProduct) => {
+      sum += product.quantity;
+      return sum;
+    },
+    0
+  );
+
+  const {
+    subtotalPrice,
+    discounts,
+    discountTotal,
+    totalPrice,
+    hasFreeShipping,
+  } = applyPromotions(products, couponCodes);
+
+  const shipping = getShippingQuote(
+    products,
+    shippingMethod,
+    shippingRegion,
+    hasFreeShipping
+  );
+
+  return {
+    productQuantity,
+    installments: getInstallmentLimit(products),
+    subtotalPrice,
+    discounts,
+    discountTotal,
+    totalPrice,
+    hasFreeShipping,
+    shipping,
+    grandTotal: addMoney(totalPrice, shipping.price),
+  };
+};
+
+export default getCartTotal;
@@ -0,0 +1,22 @@
+import { theme } from 'commons/style/theme';
+
+/* Product grid columns from each breakpoint up */
+export const gridColumns = {
+  mobile: 2,
+  tablet: 3,
+  desktop: 4,
+};
+
+const getGridColumns = (viewportWidth: number) => {
+  const { tablet, desktop } = theme.breakpoints;
+
+  if (viewportWidth >= parseInt(desktop, 10)) {
+    return gridColumns.desktop;
+  }
+
+  return viewportWidth >= parseInt(tablet, 10)
+    ? gridColumns.tablet
+    : gridColumns.mobile;
+};
+
+export default getGridColumns;
@@ -0,0 +1,39 @@
+export interface IGridWindow {
+  startRow: number;
+  /* First row after the window */
+  endRow: number;
+}
+
+interface IGridWindowOptions {
+  itemCount: number;
+  columns: number;
+  rowHeight: number;
+  /* How far the viewport top is below the grid top; negative above it */
+  scrollTop: number;
+  viewportHeight: number;
+  /* Rows rendered past each edge, so scrolling and tabbing meet real cards */
+  overscan?: number;
+}
+
+/* The rows of a grid that intersect the viewport, plus the overscan */
+const getGridWindow = ({
+  itemCount,
+  columns,
+  rowHeight,
+  scrollTop,
+  viewportHeight,
+  overscan = 2,
+}: IGridWindowOptions): IGridWindow => {
+  const rowCount = Math.ceil(itemCount / columns);
+  const firstVisibleRow = Math.floor(Math.max(scrollTop, 0) / rowHeight);
+  const lastVisibleRow = Math.ceil(
+    Math.max(scrollTop + viewportHeight, 0) / rowHeight
+  );
+
+  return {
+    startRow: Math.min(Math.max(firstVisibleRow - overscan, 0), rowCount),
+    endRow: Math.min(lastVisibleRow + overscan, rowCount),
+  };
+};
+
+export default getGridWindow;
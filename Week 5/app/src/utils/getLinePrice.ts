@@ -0,0 +1,7 @@
+import { ICartProduct } from 'models';
+import { money, multiplyMoney } from 'utils/money';
+
+const getLinePrice = ({ price, currencyId, quantity }: ICartProduct) =>
+  multiplyMoney(money(price, currencyId), quantity);
+
+export default getLinePrice;
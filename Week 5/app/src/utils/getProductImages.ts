@@ -0,0 +1,7 @@
+/* Every SKU ships a front (`-1`) and a back (`-2`) product photo */
+const getProductImages = (sku: number): string[] =>
+  [1, 2].map((n: number) =>
+    require(`static/products/${sku}-${n}-product.webp`)
+  );
+
+export default getProductImages;
@@ -0,0 +1,22 @@
+/*
+ * Wraps `fn` so a call with the same arguments as the one before returns the
+ * same result without running it again. Arguments are compared with
+ * Object.is, like React's hook dependencies.
+ */
+const memoizeLast = <A extends unknown[], R>(fn: (...args: A) => R) => {
+  let last: { args: A; result: R } | undefined;
+
+  return (...args: A): R => {
+    if (
+      !last ||
+      last.args.length !== args.length ||
+      last.args.some((arg, index) => !Object.is(arg, args[index]))
+    ) {
+      last = { args, result: fn(...args) };
+    }
+
+    return last.result;
+  };
+};
+
+export default memoizeLast;
@@ -0,0 +1,101 @@
+import { IMoney } from 'models';
+
+/*
+ * Prices are stored as integer minor units so that sums, products and splits
+ * never drift the way floating-point amounts do (10.9 * 3 !== 32.7).
+ */
+
+/* Minor units used by the currency, e.g. 2 for USD, 0 for JPY, 3 for KWD */
+export const getMinorUnits = (currencyId: string) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currencyId,
+  }).resolvedOptions().maximumFractionDigits;
+
+const getFactor = (currencyId: string) =>
+  Math.pow(10, getMinorUnits(currencyId));
+
+/* Half-way values are rounded away from zero */
+const roundHalfUp = (value: number) =>
+  // toPrecision drops float noise such as 1.005 * 100 = 100.49999999999999
+  Math.sign(value) * Math.round(Math.abs(Number(value.toPrecision(15))));
+
+/* Creates money from an amount in major units, e.g. dollars */
+export const money = (amount: number, currencyId: string): IMoney => ({
+  amount: roundHalfUp(amount * getFactor(currencyId)),
+  currencyId,
+});
+
+export const zeroMoney = (currencyId: string): IMoney => ({
+  amount: 0,
+  currencyId,
+});
+
+export const toMajorUnits = ({ amount, currencyId }: IMoney) =>
+  amount / getFactor(currencyId);
+
+const assertSameCurrency = (a: IMoney, b: IMoney) => {
+  if (a.currencyId !== b.currencyId) {
+    throw new Error(`Cannot combine ${a.currencyId} with ${b.currencyId}`);
+  }
+};
+
+export const addMoney = (a: IMoney, b: IMoney): IMoney => {
+  assertSameCurrency(a, b);
+
+  return { amount: a.amount + b.amount, currencyId: a.currencyId };
+};
+
+export const subtractMoney = (a: IMoney, b: IMoney): IMoney => {
+  assertSameCurrency(a, b);
+
+  return { amount: a.amount - b.amount, currencyId: a.currencyId };
+};
+
+export const sumMoney = (values: IMoney[], currencyId: string): IMoney =>
+  values.reduce(addMoney, zeroMoney(currencyId));
+
+export const multiplyMoney = (value: IMoney, factor: number): IMoney => ({
+  amount: roundHalfUp(value.amount * factor),
+  currencyId: value.currencyId,
+});
+
+export const percentOfMoney = (value: IMoney, percent: number): IMoney =>
+  multiplyMoney(value, percent / 100);
+
+export const compareMoney = (a: IMoney, b: IMoney) => {
+  assertSameCurrency(a, b);
+
+  return a.amount - b.amount;
+};
+
+export const minMoney = (a: IMoney, b: IMoney): IMoney =>
+  compareMoney(a, b) <= 0 ? a : b;
+
+export const isZeroMoney = ({ amount }: IMoney) => amount === 0;
+
+/*
+ * Splits money in proportion to the given ratios. Minor units left over
+ * after rounding down go one by one to the first parts, so the parts always
+ * add back up to the original amount.
+ */
+export const allocateMoney = (value: IMoney, ratios: number[]): IMoney[] => {
+  const totalRatio = ratios.reduce((sum: number, ratio: number) => sum + ratio);
+  const amounts = ratios.map((ratio: number) =>
+    Math.floor((value.amount * ratio) / totalRatio)
+  );
+  let remainder =
+    value.amount -
+    amounts.reduce((sum: number, amount: number) => sum + amount);
+
+  return amounts.map((amount: number) => {
+    const extra = remainder > 0 ? 1 : 0;
+    remainder -= extra;
+
+    return { amount: amount + extra, currencyId: value.currencyId };
+  });
+};
+
+/* Splits money into `count` parts that differ by at most one minor unit */
+export const splitMoney = (value: IMoney, count: number): IMoney[] =>
+  allocateMoney(value, Array(Math.max(count, 1)).fill(1));
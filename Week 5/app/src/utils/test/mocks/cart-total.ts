@@ -3,9 +3,18 @@ import { ICartTotal } from 'models';
 const mockTotal: ICartTotal = {
   productQuantity: 1,
   installments: 1,
-  totalPrice: 10.9,
-  currencyId: 'USD',
-  currencyFormat: '$',
+  subtotalPrice: { amount: 1090, currencyId: 'USD' },
+  discounts: [],
+  discountTotal: { amount: 0, currencyId: 'USD' },
+  totalPrice: { amount: 1090, currencyId: 'USD' },
+  hasFreeShipping: true,
+  shipping: {
+    method: { id: 'standard', label: 'Standard' },
+    region: 'north-america',
+    price: { amount: 0, currencyId: 'USD' },
+    deliveryDays: [3, 5],
+  },
+  grandTotal: { amount: 1090, currencyId: 'USD' },
 };
 
 export default mockTotal;